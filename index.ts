@@ -1,4 +1,88 @@
 // Export the main classes and functions
-export { Tree } from "./src/Tree";
+export { Tree, defaultParseOptions } from "./src/Tree";
+export type {
+  ParseOptions,
+  NodeKey,
+  IndexOptions,
+  FlatOptions,
+  FromFlatOptions,
+  PathsOptions,
+  FromPathsOptions,
+  NestedSetsOptions,
+  FromNestedSetsOptions,
+  ValidateOptions,
+  ValidationIssue,
+  ValidationReport,
+} from "./src/Tree";
 
-export { TreeNode, defaultTraversalStrategy } from "./src/TreeNode";
+export {
+  TreeNode,
+  defaultTraversalStrategy,
+  traversalStrategy,
+  WalkSignal,
+} from "./src/TreeNode";
+export type {
+  AggregateReducer,
+  CloneOptions,
+  FilterOptions,
+  SearchOptions,
+  SerializeOptions,
+  TraversalOrder,
+  TreeNodeChange,
+  WalkCallback,
+  WalkContext,
+  WalkVisitor,
+} from "./src/TreeNode";
+
+export type { TreeEvent, TreeEventMap, TreeListeners } from "./src/TreeEvents";
+
+export { TreeHistory } from "./src/TreeHistory";
+export type { TreeHistoryOptions } from "./src/TreeHistory";
+
+export { ImmutableTree } from "./src/ImmutableTree";
+export { ImmutableTreeNode } from "./src/ImmutableTreeNode";
+
+export { diffTrees, applyPatch } from "./src/diff";
+export type { DiffOptions, TreeOperation } from "./src/diff";
+
+export { compileQuery, query } from "./src/query";
+export type { QueryOptions } from "./src/query";
+
+export { renderTree, parseTreeText } from "./src/text";
+export type { RenderOptions, TextParseOptions } from "./src/text";
+
+export {
+  parseOutline,
+  parseMarkdownHeadings,
+  renderOutline,
+  renderMarkdownList,
+} from "./src/outline";
+export type {
+  IndentedOutlineOptions,
+  MarkdownListOptions,
+  OutlineParseOptions,
+  OutlineWriteOptions,
+} from "./src/outline";
+
+export { toDot, toMermaid } from "./src/graph";
+export type { DotOptions, GraphOptions, MermaidOptions } from "./src/graph";
+
+export { readXml, parseXml, parseDom, writeXml, toXml, toDom } from "./src/xml";
+export type {
+  DomLikeDocument,
+  DomLikeNode,
+  XmlElement,
+  XmlEvent,
+  XmlParseOptions,
+  XmlWriteOptions,
+} from "./src/xml";
+
+export {
+  CycleError,
+  DuplicateKeyError,
+  FlatTreeError,
+  MultipleParentsError,
+  NodeNotFoundError,
+  QuerySyntaxError,
+  TreeParseError,
+} from "./src/errors";
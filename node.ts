@@ -0,0 +1,9 @@
+// Export the Node.js-only features, kept out of the main entry point so that browser bundles stay clean
+export { fromDirectory, watchDirectory } from "./src/directory";
+export type {
+  DirectoryOptions,
+  DirectoryWatcher,
+  FileFilter,
+  FileModel,
+  WatchOptions,
+} from "./src/directory";
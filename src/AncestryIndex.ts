@@ -0,0 +1,154 @@
+import { TreeNode } from "./TreeNode";
+
+/**
+ * A snapshot of the ancestry of a tree answering relationship queries without walking parent chains:
+ * ancestor checks in constant time from entry and exit times, and lowest common ancestors
+ * in logarithmic time by binary lifting. It must be rebuilt after a structural change.
+ *
+ * @template NodeModelType - The type of the node's model.
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class AncestryIndex<NodeModelType> {
+  /**
+   * The position of each node in the arrays of the index, in pre-order.
+   */
+  private positions = new Map<TreeNode<NodeModelType>, number>();
+
+  /**
+   * The nodes in pre-order.
+   */
+  private nodes: TreeNode<NodeModelType>[] = [];
+
+  /**
+   * The depth of each node.
+   */
+  private depths: number[] = [];
+
+  /**
+   * The position of the last descendant of each node; a node's own position is its entry time.
+   */
+  private exits: number[] = [];
+
+  /**
+   * The binary lifting table: `up[k][i]` is the position of the 2^k-th ancestor of node i,
+   * or -1 above the root.
+   */
+  private up: Int32Array[] = [];
+
+  /**
+   * Creates a new AncestryIndex.
+   * @param {TreeNode<NodeModelType>} root - The root of the indexed tree.
+   */
+  constructor(root: TreeNode<NodeModelType>) {
+    const parents: number[] = [];
+
+    // Number the nodes in pre-order, recording where each subtree ends
+    const stack: [TreeNode<NodeModelType>, number][] = [[root, -1]];
+    while (stack.length > 0) {
+      const [node, parent] = stack.pop()!;
+      const position = this.nodes.length;
+
+      this.positions.set(node, position);
+      this.nodes.push(node);
+      parents.push(parent);
+      this.depths.push(parent === -1 ? 0 : this.depths[parent] + 1);
+
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push([node.children[i], position]);
+      }
+    }
+
+    // In pre-order, a subtree ends where the subtree of its last child ends
+    this.exits = this.nodes.map((_, position) => position);
+    for (let position = this.nodes.length - 1; position > 0; position--) {
+      const parent = parents[position];
+      this.exits[parent] = Math.max(this.exits[parent], this.exits[position]);
+    }
+
+    this.up.push(Int32Array.from(parents));
+    for (let k = 1; 1 << k < this.nodes.length; k++) {
+      const previous = this.up[k - 1];
+      this.up.push(
+        previous.map((ancestor) => (ancestor === -1 ? -1 : previous[ancestor]))
+      );
+    }
+  }
+
+  /**
+   * Checks whether a node was in the tree when the index was built.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @returns {boolean} - True if the node is indexed.
+   */
+  has(node: TreeNode<NodeModelType>): boolean {
+    return this.positions.has(node);
+  }
+
+  /**
+   * Gets the depth of a node.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @returns {number} - The depth of the node, or -1 if it is not indexed.
+   */
+  depth(node: TreeNode<NodeModelType>): number {
+    const position = this.positions.get(node);
+    return position === undefined ? -1 : this.depths[position];
+  }
+
+  /**
+   * Checks whether a node is a strict ancestor of another node.
+   * @param {TreeNode<NodeModelType>} ancestor - The possible ancestor.
+   * @param {TreeNode<NodeModelType>} node - The possible descendant.
+   * @returns {boolean} - True if both nodes are indexed and the first one is a strict ancestor of the second one.
+   */
+  isAncestorOf(
+    ancestor: TreeNode<NodeModelType>,
+    node: TreeNode<NodeModelType>
+  ): boolean {
+    const a = this.positions.get(ancestor);
+    const b = this.positions.get(node);
+
+    return a !== undefined && b !== undefined && a < b && b <= this.exits[a];
+  }
+
+  /**
+   * Gets the lowest common ancestor of two nodes, each node counting as its own ancestor.
+   * @param {TreeNode<NodeModelType>} a - The first node.
+   * @param {TreeNode<NodeModelType>} b - The second node.
+   * @returns {TreeNode<NodeModelType> | null} - The lowest common ancestor, or null if a node is not indexed.
+   */
+  lowestCommonAncestor(
+    a: TreeNode<NodeModelType>,
+    b: TreeNode<NodeModelType>
+  ): TreeNode<NodeModelType> | null {
+    let x = this.positions.get(a);
+    let y = this.positions.get(b);
+
+    if (x === undefined || y === undefined) {
+      return null;
+    }
+
+    if (this.depths[x] < this.depths[y]) {
+      [x, y] = [y, x];
+    }
+
+    // Lift the deeper node to the depth of the other one
+    for (let diff = this.depths[x] - this.depths[y], k = 0; diff > 0; k++) {
+      if (diff & 1) x = this.up[k][x];
+      diff >>= 1;
+    }
+
+    if (x === y) {
+      return this.nodes[x];
+    }
+
+    // Lift both nodes as far as they stay apart, their parents are then the same
+    for (let k = this.up.length - 1; k >= 0; k--) {
+      if (this.up[k][x] !== this.up[k][y]) {
+        x = this.up[k][x];
+        y = this.up[k][y];
+      }
+    }
+
+    return this.nodes[this.up[0][x]];
+  }
+}
@@ -0,0 +1,348 @@
+import { CycleError } from "./errors";
+import { ImmutableTreeNode } from "./ImmutableTreeNode";
+import { ParseOptions, Tree } from "./Tree";
+import { SerializeOptions } from "./TreeNode";
+
+/**
+ * Represents a persistent tree: every operation returns a new tree sharing its unchanged subtrees,
+ * so reference equality tells which branches changed.
+ *
+ * @template NodeModelType - The type of the node's model.
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class ImmutableTree<NodeModelType> {
+  /**
+   * The root node of the tree.
+   * @type {ImmutableTreeNode<NodeModelType> | null}
+   */
+  readonly root: ImmutableTreeNode<NodeModelType> | null;
+
+  /**
+   * Creates a new ImmutableTree.
+   * @param {ImmutableTreeNode<NodeModelType> | null} root - The root node of the tree.
+   */
+  constructor(root: ImmutableTreeNode<NodeModelType> | null) {
+    this.root = root;
+    Object.freeze(this);
+  }
+
+  /**
+   * Parses a JSON/JavaScript object into an immutable tree, like the `Tree` constructor.
+   * @param {any} object - The object to be parsed.
+   * @param {ParseOptions} [parseOptions] - The options used to parse the object.
+   * @returns {ImmutableTree<T>} - The parsed tree.
+   */
+  static parse<T>(object: any, parseOptions?: ParseOptions): ImmutableTree<T> {
+    return ImmutableTree.fromTree(new Tree<T>(object, undefined, parseOptions));
+  }
+
+  /**
+   * Creates an immutable copy of a mutable tree.
+   * @param {Tree<T>} tree - The tree to copy.
+   * @returns {ImmutableTree<T>} - The immutable copy.
+   */
+  static fromTree<T>(tree: Tree<T>): ImmutableTree<T> {
+    return new ImmutableTree(
+      tree.root ? ImmutableTreeNode.fromTreeNode(tree.root) : null
+    );
+  }
+
+  /**
+   * Creates a mutable copy of the tree.
+   * @returns {Tree<NodeModelType>} - The mutable copy.
+   */
+  toTree(): Tree<NodeModelType> {
+    const tree = new Tree<NodeModelType>(null);
+    tree.root = this.root ? this.root.toTreeNode() : null;
+    return tree;
+  }
+
+  /**
+   * Serializes the tree to a plain object accepted by `Tree.parse`.
+   * @param {SerializeOptions<NodeModelType>} [options] - The serialization options.
+   * @returns {any} - The plain object representing the tree or null if the root is null.
+   */
+  toObject(options?: SerializeOptions<NodeModelType>): any {
+    return this.toTree().toObject(options);
+  }
+
+  /**
+   * Gets all nodes in the tree, in the same post-order as the default `Tree` strategy.
+   * @returns {ImmutableTreeNode<NodeModelType>[] | null} - An array of all nodes in the tree or null if the root is null.
+   */
+  all(): ImmutableTreeNode<NodeModelType>[] | null {
+    return this.root ? [...this.root.postOrder()] : null;
+  }
+
+  /**
+   * Makes the tree iterable, lazily yielding its nodes in pre-order.
+   * @returns {Iterator<ImmutableTreeNode<NodeModelType>>} - The nodes in pre-order.
+   */
+  *[Symbol.iterator](): Iterator<ImmutableTreeNode<NodeModelType>> {
+    if (this.root) {
+      yield* this.root.preOrder();
+    }
+  }
+
+  /**
+   * Finds a node by a predicate function or a property name and value.
+   * @param {((node: ImmutableTreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if property name is provided).
+   * @returns {ImmutableTreeNode<NodeModelType> | null} - The found node or null if not found.
+   */
+  find(
+    predicateOrProperty:
+      | ((node: ImmutableTreeNode<NodeModelType>) => boolean)
+      | string,
+    value?: any
+  ): ImmutableTreeNode<NodeModelType> | null {
+    const predicate = this.toPredicate(predicateOrProperty, value);
+
+    for (const node of this) {
+      if (predicate(node)) {
+        return node;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the path from the root node to a node.
+   * @param {ImmutableTreeNode<NodeModelType>} node - The target node.
+   * @returns {ImmutableTreeNode<NodeModelType>[] | null} - An array representing the path from the root to the target node or null if not found.
+   */
+  getPath(
+    node: ImmutableTreeNode<NodeModelType>
+  ): ImmutableTreeNode<NodeModelType>[] | null {
+    return this.root ? this.root.getPath(node) : null;
+  }
+
+  /**
+   * Gets the reverse path from a node to the root node.
+   * @param {ImmutableTreeNode<NodeModelType>} node - The target node.
+   * @returns {ImmutableTreeNode<NodeModelType>[] | null} - An array representing the reverse path from the target node to the root or null if not found.
+   */
+  getReversePath(
+    node: ImmutableTreeNode<NodeModelType>
+  ): ImmutableTreeNode<NodeModelType>[] | null {
+    return this.getPath(node)?.reverse() ?? null;
+  }
+
+  /**
+   * Gets the parent of a node.
+   * @param {ImmutableTreeNode<NodeModelType>} node - The target node.
+   * @returns {ImmutableTreeNode<NodeModelType> | null} - The parent node, or null for the root or a node outside the tree.
+   */
+  getParent(
+    node: ImmutableTreeNode<NodeModelType>
+  ): ImmutableTreeNode<NodeModelType> | null {
+    const path = this.getPath(node);
+    return path && path.length > 1 ? path[path.length - 2] : null;
+  }
+
+  /**
+   * Gets the index of a node in the tree: its position among its siblings starting from 1, or 0 for the root.
+   * @param {ImmutableTreeNode<NodeModelType>} node - The target node.
+   * @returns {number | null} - The index, or null for a node outside the tree.
+   */
+  getIndex(node: ImmutableTreeNode<NodeModelType>): number | null {
+    if (node === this.root) {
+      return 0;
+    }
+
+    const parent = this.getParent(node);
+    return parent ? parent.children.indexOf(node) + 1 : null;
+  }
+
+  /**
+   * Returns a new tree where a child node is appended to a parent node.
+   * @param {ImmutableTreeNode<NodeModelType>} parent - The parent node.
+   * @param {ImmutableTreeNode<NodeModelType>} child - The child node to be added.
+   * @returns {ImmutableTree<NodeModelType>} - The updated tree.
+   */
+  addChild(
+    parent: ImmutableTreeNode<NodeModelType>,
+    child: ImmutableTreeNode<NodeModelType>
+  ): ImmutableTree<NodeModelType> {
+    return this.rewrite([parent], (node) =>
+      node.withChildren([...node.children, child])
+    );
+  }
+
+  /**
+   * Returns a new tree where a new node is appended to the first node that matches a predicate function or a property name and value.
+   * @param {ImmutableTreeNode<NodeModelType>} child - The new child node to be inserted.
+   * @param {((node: ImmutableTreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if property name is provided).
+   * @returns {ImmutableTree<NodeModelType>} - The updated tree, or the same tree if no node matches.
+   */
+  insertChild(
+    child: ImmutableTreeNode<NodeModelType>,
+    predicateOrProperty:
+      | ((node: ImmutableTreeNode<NodeModelType>) => boolean)
+      | string,
+    value?: any
+  ): ImmutableTree<NodeModelType> {
+    // Visit the nodes in the same order as the default Tree strategy
+    const predicate = this.toPredicate(predicateOrProperty, value);
+    const parent = this.all()?.find(predicate);
+    return parent ? this.addChild(parent, child) : this;
+  }
+
+  /**
+   * Returns a new tree without a node and its descendants.
+   * @param {ImmutableTreeNode<NodeModelType>} node - The node to be removed.
+   * @returns {ImmutableTree<NodeModelType>} - The updated tree.
+   */
+  remove(node: ImmutableTreeNode<NodeModelType>): ImmutableTree<NodeModelType> {
+    if (node === this.root) {
+      // If removing the root, clear the entire tree
+      return new ImmutableTree<NodeModelType>(null);
+    }
+
+    const parent = this.getParent(node);
+    return parent
+      ? this.rewrite([parent], (current) =>
+          current.withChildren(current.children.filter((c) => c !== node))
+        )
+      : this;
+  }
+
+  /**
+   * Returns a new tree where the children of a node matching a predicate function or a property name and value are removed.
+   * @param {ImmutableTreeNode<NodeModelType>} parent - The parent node.
+   * @param {((node: ImmutableTreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if property name is provided).
+   * @returns {ImmutableTree<NodeModelType>} - The updated tree.
+   */
+  deleteChildren(
+    parent: ImmutableTreeNode<NodeModelType>,
+    predicateOrProperty:
+      | ((node: ImmutableTreeNode<NodeModelType>) => boolean)
+      | string,
+    value?: any
+  ): ImmutableTree<NodeModelType> {
+    const predicate = this.toPredicate(predicateOrProperty, value);
+
+    if (!parent.children.some(predicate)) {
+      return this;
+    }
+
+    return this.rewrite([parent], (node) =>
+      node.withChildren(node.children.filter((child) => !predicate(child)))
+    );
+  }
+
+  /**
+   * Returns a new tree where a node is moved to a new parent node.
+   * @param {ImmutableTreeNode<NodeModelType>} node - The node to be moved.
+   * @param {ImmutableTreeNode<NodeModelType>} newParent - The new parent node.
+   * @returns {ImmutableTree<NodeModelType>} - The updated tree, or the same tree if the node is the root
+   * or either node is not in the tree.
+   * @throws {CycleError} - If the new parent is the node or one of its descendants.
+   */
+  move(
+    node: ImmutableTreeNode<NodeModelType>,
+    newParent: ImmutableTreeNode<NodeModelType>
+  ): ImmutableTree<NodeModelType> {
+    if (node === newParent || node.getPath(newParent)) {
+      throw new CycleError();
+    }
+
+    // Without both nodes in the tree, the moved node would be dropped
+    const oldParent = this.getParent(node);
+    if (!oldParent || !this.getPath(newParent)) {
+      return this;
+    }
+
+    // One parent can be an ancestor of the other, so the nodes are told apart by their original version
+    return this.rewrite([oldParent, newParent], (current, original) => {
+      let children = current.children;
+      if (original === oldParent) {
+        children = children.filter((c) => c !== node);
+      }
+      if (original === newParent) {
+        children = [...children, node];
+      }
+      return current.withChildren(children);
+    });
+  }
+
+  /**
+   * Returns a new tree where the model of a node is replaced.
+   * @param {ImmutableTreeNode<NodeModelType>} node - The node to be updated.
+   * @param {NodeModelType} model - The new model.
+   * @returns {ImmutableTree<NodeModelType>} - The updated tree.
+   */
+  updateModel(
+    node: ImmutableTreeNode<NodeModelType>,
+    model: NodeModelType
+  ): ImmutableTree<NodeModelType> {
+    return this.rewrite([node], (current) => current.withModel(model));
+  }
+
+  /**
+   * Rebuilds the target nodes and their ancestors, sharing every other subtree with the current tree.
+   * @param {ImmutableTreeNode<NodeModelType>[]} targets - The nodes to be updated.
+   * @param {(node: ImmutableTreeNode<NodeModelType>, original: ImmutableTreeNode<NodeModelType>) => ImmutableTreeNode<NodeModelType>} update - Builds the new version of a target node, whose children are already rebuilt, from it and the target itself.
+   * @returns {ImmutableTree<NodeModelType>} - The updated tree, or the same tree if no target belongs to it.
+   */
+  private rewrite(
+    targets: ImmutableTreeNode<NodeModelType>[],
+    update: (
+      node: ImmutableTreeNode<NodeModelType>,
+      original: ImmutableTreeNode<NodeModelType>
+    ) => ImmutableTreeNode<NodeModelType>
+  ): ImmutableTree<NodeModelType> {
+    // Only the nodes on the paths from the root to the targets are rebuilt
+    const onPath = new Set<ImmutableTreeNode<NodeModelType>>();
+    for (const target of targets) {
+      this.getPath(target)?.forEach((node) => onPath.add(node));
+    }
+
+    if (!this.root || onPath.size === 0) {
+      return this;
+    }
+
+    const rebuild = (
+      node: ImmutableTreeNode<NodeModelType>
+    ): ImmutableTreeNode<NodeModelType> => {
+      if (!onPath.has(node)) {
+        return node;
+      }
+
+      const children = node.children.map(rebuild);
+      let next = children.some((child, i) => child !== node.children[i])
+        ? node.withChildren(children)
+        : node;
+
+      if (targets.includes(node)) {
+        next = update(next, node);
+      }
+
+      return next;
+    };
+
+    return new ImmutableTree(rebuild(this.root));
+  }
+
+  /**
+   * Builds a predicate function from a predicate function or a property name and value.
+   * @param {((node: ImmutableTreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if property name is provided).
+   * @returns {(node: ImmutableTreeNode<NodeModelType>) => boolean} - The predicate function.
+   */
+  private toPredicate(
+    predicateOrProperty:
+      | ((node: ImmutableTreeNode<NodeModelType>) => boolean)
+      | string,
+    value?: any
+  ): (node: ImmutableTreeNode<NodeModelType>) => boolean {
+    return typeof predicateOrProperty === "function"
+      ? predicateOrProperty
+      : (node) =>
+          node.model[predicateOrProperty as keyof NodeModelType] === value;
+  }
+}
@@ -0,0 +1,163 @@
+import { TreeNode } from "./TreeNode";
+
+/**
+ * Represents a frozen node of an `ImmutableTree`.
+ * Nodes have no parent reference nor index so that unchanged subtrees can be shared between trees;
+ * `ImmutableTree.getParent` and `ImmutableTree.getIndex` derive them from a tree.
+ *
+ * @template NodeModelType - The type of the node's model.
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class ImmutableTreeNode<NodeModelType> {
+  /**
+   * The model associated with the node.
+   * @type {NodeModelType}
+   */
+  readonly model: NodeModelType;
+
+  /**
+   * The children nodes of the current node.
+   * @type {ReadonlyArray<ImmutableTreeNode<NodeModelType>>}
+   */
+  readonly children: ReadonlyArray<ImmutableTreeNode<NodeModelType>>;
+
+  /**
+   * The id of the node.
+   * @type {any}
+   */
+  readonly id?: any;
+
+  /**
+   * Creates a new ImmutableTreeNode.
+   * @param {NodeModelType} model - The model of the node.
+   * @param {ReadonlyArray<ImmutableTreeNode<NodeModelType>>} [children] - The children nodes.
+   * @param {any} [id] - The id of the node.
+   */
+  constructor(
+    model: NodeModelType,
+    children: ReadonlyArray<ImmutableTreeNode<NodeModelType>> = [],
+    id?: any
+  ) {
+    this.model = model;
+    this.children = Object.freeze(children.slice());
+    if (id !== undefined) this.id = id;
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates an immutable copy of a mutable node and its descendants.
+   * @param {TreeNode<T>} node - The node to copy.
+   * @returns {ImmutableTreeNode<T>} - The immutable copy.
+   */
+  static fromTreeNode<T>(node: TreeNode<T>): ImmutableTreeNode<T> {
+    return new ImmutableTreeNode(
+      node.model,
+      node.children.map((child) => ImmutableTreeNode.fromTreeNode(child)),
+      node.id
+    );
+  }
+
+  /**
+   * Creates a mutable copy of the node and its descendants.
+   * @returns {TreeNode<NodeModelType>} - The mutable copy.
+   */
+  toTreeNode(): TreeNode<NodeModelType> {
+    // The index is set when the copy is added to its parent
+    const node = new TreeNode(this.model, 0);
+    if (this.id !== undefined) node.id = this.id;
+    this.children.forEach((child) => node.addChild(child.toTreeNode()));
+    return node;
+  }
+
+  /**
+   * Returns a copy of the node with another model, sharing its children.
+   * @param {NodeModelType} model - The new model.
+   * @returns {ImmutableTreeNode<NodeModelType>} - The updated node.
+   */
+  withModel(model: NodeModelType): ImmutableTreeNode<NodeModelType> {
+    return new ImmutableTreeNode(model, this.children, this.id);
+  }
+
+  /**
+   * Returns a copy of the node with other children, sharing its model.
+   * @param {ReadonlyArray<ImmutableTreeNode<NodeModelType>>} children - The new children.
+   * @returns {ImmutableTreeNode<NodeModelType>} - The updated node.
+   */
+  withChildren(
+    children: ReadonlyArray<ImmutableTreeNode<NodeModelType>>
+  ): ImmutableTreeNode<NodeModelType> {
+    return new ImmutableTreeNode(this.model, children, this.id);
+  }
+
+  /**
+   * Lazily yields the nodes of the subtree in pre-order.
+   * @returns {Generator<ImmutableTreeNode<NodeModelType>>} - The nodes in pre-order.
+   */
+  *preOrder(): Generator<ImmutableTreeNode<NodeModelType>> {
+    const stack: ImmutableTreeNode<NodeModelType>[] = [this];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      yield node;
+
+      // Push the children backwards so the first child is visited first
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push(node.children[i]);
+      }
+    }
+  }
+
+  /**
+   * Lazily yields the nodes of the subtree in post-order.
+   * @returns {Generator<ImmutableTreeNode<NodeModelType>>} - The nodes in post-order.
+   */
+  *postOrder(): Generator<ImmutableTreeNode<NodeModelType>> {
+    // Each frame holds a node and the position of the next child to visit
+    const stack: [ImmutableTreeNode<NodeModelType>, number][] = [[this, 0]];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const [node, position] = frame;
+
+      if (position < node.children.length) {
+        frame[1]++;
+        stack.push([node.children[position], 0]);
+      } else {
+        stack.pop();
+        yield node;
+      }
+    }
+  }
+
+  /**
+   * Gets the path from the current node to a descendant node.
+   * @param {ImmutableTreeNode<NodeModelType>} targetNode - The target node.
+   * @returns {ImmutableTreeNode<NodeModelType>[] | null} - The path from the current node to the target node, or null if not found.
+   */
+  getPath(
+    targetNode: ImmutableTreeNode<NodeModelType>
+  ): ImmutableTreeNode<NodeModelType>[] | null {
+    // Each frame holds a node and the position of the next child to visit
+    const stack: [ImmutableTreeNode<NodeModelType>, number][] = [[this, 0]];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const [node, position] = frame;
+
+      if (node === targetNode) {
+        // The stack holds the path from the current node to the target node
+        return stack.map(([pathNode]) => pathNode);
+      }
+
+      if (position < node.children.length) {
+        frame[1]++;
+        stack.push([node.children[position], 0]);
+      } else {
+        stack.pop();
+      }
+    }
+
+    return null;
+  }
+}
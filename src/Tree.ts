@@ -1,4 +1,292 @@
-import { TreeNode, defaultTraversalStrategy } from "./TreeNode";
+import { AncestryIndex } from "./AncestryIndex";
+import { CycleError, DuplicateKeyError, FlatTreeError } from "./errors";
+import { DotOptions, MermaidOptions, toDot, toMermaid } from "./graph";
+import {
+  IndentedOutlineOptions,
+  MarkdownListOptions,
+  OutlineParseOptions,
+  OutlineWriteOptions,
+  parseMarkdownHeadings,
+  parseOutline,
+  renderMarkdownList,
+  renderOutline,
+} from "./outline";
+import { QueryOptions, query } from "./query";
+import {
+  RenderOptions,
+  TextParseOptions,
+  inspectSymbol,
+  parseTreeText,
+} from "./text";
+import { TreeEventEmitter, TreeListeners } from "./TreeEvents";
+import {
+  DomLikeDocument,
+  DomLikeNode,
+  XmlElement,
+  XmlParseOptions,
+  XmlWriteOptions,
+  parseDom,
+  parseXml,
+  toDom,
+  toXml,
+} from "./xml";
+import {
+  AggregateReducer,
+  CloneOptions,
+  FilterOptions,
+  SearchOptions,
+  SerializeOptions,
+  TreeNode,
+  TraversalOrder,
+  TreeNodeChange,
+  WalkVisitor,
+  defaultTraversalStrategy,
+  rawChildrenKeys,
+  searchArguments,
+  withoutRawChildren,
+} from "./TreeNode";
+
+/**
+ * Options describing how raw objects are mapped to tree nodes by `Tree.parse`.
+ */
+export interface ParseOptions {
+  /**
+   * The property holding the children array of a raw object.
+   * @default "children"
+   */
+  childrenKey?: string;
+
+  /**
+   * The property holding the node model. When `null`, or when a raw object
+   * does not have this property, the whole raw object is used as the model.
+   * @default "model"
+   */
+  modelKey?: string | null;
+
+  /**
+   * Whether to remove the children array from a model taken from the whole raw object.
+   * @default false
+   */
+  stripChildren?: boolean;
+
+  /**
+   * The property holding the node id, looked up on the model first and then on the raw object.
+   * @default "id"
+   */
+  idKey?: string;
+}
+
+/**
+ * The default parse options.
+ */
+export const defaultParseOptions: Required<ParseOptions> = {
+  childrenKey: "children",
+  modelKey: "model",
+  stripChildren: false,
+  idKey: "id",
+};
+
+/**
+ * A key used to identify nodes: a model property name or a key-extractor function.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export type NodeKey<NodeModelType> =
+  | string
+  | ((node: TreeNode<NodeModelType>) => any);
+
+/**
+ * Options for the id index maintained by `Tree.indexBy`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface IndexOptions<NodeModelType> {
+  /**
+   * The key of each node. Defaults to the node `id` set by `Tree.parse`,
+   * or the id key of the model for nodes created by hand.
+   */
+  key?: NodeKey<NodeModelType>;
+
+  /**
+   * What to do when two nodes share a key: throw a `DuplicateKeyError`,
+   * or call a function and keep the node indexed first.
+   * @default "throw"
+   */
+  onDuplicate?:
+    | "throw"
+    | ((
+        key: any,
+        existing: TreeNode<NodeModelType>,
+        duplicate: TreeNode<NodeModelType>
+      ) => void);
+}
+
+/**
+ * A problem found by `Tree.validate`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface ValidationIssue<NodeModelType> {
+  /** The kind of problem. */
+  type:
+    | "cycle"
+    | "multipleParents"
+    | "parentMismatch"
+    | "duplicateKey"
+    | "schema";
+  /** The node with the problem. */
+  node: TreeNode<NodeModelType>;
+  /** A description of the problem. */
+  message: string;
+}
+
+/**
+ * The result of `Tree.validate`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface ValidationReport<NodeModelType> {
+  /** Whether no problem was found. */
+  valid: boolean;
+  /** The problems found. */
+  issues: ValidationIssue<NodeModelType>[];
+}
+
+/**
+ * Options for `Tree.validate`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface ValidateOptions<NodeModelType> {
+  /**
+   * The key that must be unique. Defaults to the id index key, or to the node id.
+   */
+  key?: NodeKey<NodeModelType>;
+
+  /**
+   * Checks a model, returning false or one or more messages when it is invalid.
+   */
+  schema?: (
+    model: NodeModelType,
+    node: TreeNode<NodeModelType>
+  ) => boolean | string | string[] | void;
+}
+
+/**
+ * Options describing flat rows linked by parent ids, used by `Tree.fromFlat` and `Tree.toFlat`.
+ */
+export interface FlatOptions {
+  /**
+   * The property holding the id of a row.
+   * @default "id"
+   */
+  idKey?: string;
+
+  /**
+   * The property holding the id of the parent row.
+   * @default "parentId"
+   */
+  parentKey?: string;
+
+  /**
+   * The parent id of the root row. When null, a missing parent id marks the root too.
+   * @default null
+   */
+  rootValue?: any;
+}
+
+/**
+ * Options for `Tree.fromFlat`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface FromFlatOptions<NodeModelType> extends FlatOptions {
+  /**
+   * What to do with rows not connected to the root: throw a `FlatTreeError`,
+   * or call a function with each of them and leave them out.
+   * @default "throw"
+   */
+  onOrphan?: "throw" | ((row: NodeModelType) => void);
+}
+
+/**
+ * Options for `Tree.toPaths`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface PathsOptions<NodeModelType> {
+  /**
+   * The property holding the id of a row. Defaults to the id key of the parse options.
+   */
+  idKey?: string;
+
+  /**
+   * The property holding the materialized path of a row.
+   * @default "path"
+   */
+  pathKey?: string;
+
+  /**
+   * The separator of the path segments.
+   * @default "/"
+   */
+  separator?: string;
+
+  /**
+   * The path segment of a node. Defaults to the node id.
+   */
+  key?: (node: TreeNode<NodeModelType>) => any;
+}
+
+/**
+ * Options for `Tree.fromPaths`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface FromPathsOptions<NodeModelType>
+  extends Omit<PathsOptions<NodeModelType>, "key"> {
+  /**
+   * What to do with rows whose parent path is missing, as in `Tree.fromFlat`.
+   * @default "throw"
+   */
+  onOrphan?: FromFlatOptions<NodeModelType>["onOrphan"];
+}
+
+/**
+ * Options for `Tree.toNestedSets`.
+ */
+export interface NestedSetsOptions {
+  /**
+   * The property holding the id of a row. Defaults to the id key of the parse options.
+   */
+  idKey?: string;
+
+  /**
+   * The property holding the left number of a row.
+   * @default "left"
+   */
+  leftKey?: string;
+
+  /**
+   * The property holding the right number of a row.
+   * @default "right"
+   */
+  rightKey?: string;
+}
+
+/**
+ * Options for `Tree.fromNestedSets`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface FromNestedSetsOptions<NodeModelType>
+  extends NestedSetsOptions {
+  /**
+   * What to do with rows whose interval is empty or overlaps another one, as in `Tree.fromFlat`.
+   * @default "throw"
+   */
+  onOrphan?: FromFlatOptions<NodeModelType>["onOrphan"];
+}
 
 /**
  * Represents a generic tree data structure.
@@ -9,187 +297,1594 @@ import { TreeNode, defaultTraversalStrategy } from "./TreeNode";
  */
 export class Tree<NodeModelType> {
   /**
-   * The root node of the tree.
+   * The root node of the tree, backing the `root` accessor.
    * @type {TreeNode<NodeModelType> | null}
    */
-  root: TreeNode<NodeModelType> | null;
+  private rootNode: TreeNode<NodeModelType> | null = null;
 
   /**
    * The traversal strategy function for the tree.
    * @type {(node: TreeNode<NodeModelType>) => TreeNode<NodeModelType>[]}
    * @default defaultTraversalStrategy
    */
-  strategy: (node: TreeNode<NodeModelType>) => TreeNode<NodeModelType>[] =
-    defaultTraversalStrategy;
+  strategy: (node: TreeNode<NodeModelType>) => TreeNode<NodeModelType>[] =
+    defaultTraversalStrategy;
+
+  /**
+   * The options used to parse raw objects into nodes.
+   * @type {Required<ParseOptions>}
+   */
+  parseOptions: Required<ParseOptions>;
+
+  /**
+   * The id index, when enabled by `indexBy`.
+   */
+  private idIndex: {
+    key: NodeKey<NodeModelType>;
+    byId: boolean;
+    onDuplicate: IndexOptions<NodeModelType>["onDuplicate"];
+    map: Map<any, TreeNode<NodeModelType>>;
+    keys: Map<TreeNode<NodeModelType>, any>;
+  } | null = null;
+
+  /**
+   * The emitter dispatching the mutation events of the tree.
+   */
+  private events = new TreeEventEmitter<NodeModelType>();
+
+  /**
+   * Whether changes are currently being rolled back and must not be reported.
+   */
+  private silent = false;
+
+  /**
+   * Whether relationship queries use an ancestry index, enabled by `indexAncestry`.
+   */
+  private ancestryIndexed = false;
+
+  /**
+   * The ancestry index, built on the first query after a structural change.
+   */
+  private ancestryIndex: AncestryIndex<NodeModelType> | null = null;
+
+  /**
+   * The computed fields, with the values cached for each node.
+   */
+  private computedFields = new Map<
+    string,
+    {
+      reducer: AggregateReducer<NodeModelType, any>;
+      values: WeakMap<TreeNode<NodeModelType>, any>;
+    }
+  >();
+
+  /**
+   * Creates a new Tree.
+   * @param {any} object - The object representing the tree structure.
+   * @param {(node: TreeNode<NodeModelType>) => TreeNode<NodeModelType>[]} [strategy] - The traversal strategy function.
+   * @param {ParseOptions} [parseOptions] - The options used to parse the object.
+   */
+  constructor(
+    object: any,
+    strategy?: (node: TreeNode<NodeModelType>) => TreeNode<NodeModelType>[],
+    parseOptions?: ParseOptions
+  ) {
+    // Merge the parse options with the defaults before parsing
+    this.parseOptions = { ...defaultParseOptions, ...parseOptions };
+    // Initialize the root node by parsing the provided object
+    this.root = object ? this.parse(object) : null;
+    // Set the traversal strategy function, defaulting to depth-first order
+    if (strategy) this.strategy = strategy;
+    // Register the built-in computed fields
+    Object.entries(builtinComputedFields).forEach(([name, reducer]) =>
+      this.defineComputed(name, reducer)
+    );
+  }
+
+  /**
+   * Builds a tree from flat rows linked by parent ids, in linear time.
+   * Each row becomes the model of a node, children keep the order of the rows.
+   * @param {NodeModelType[]} rows - The rows, in any order.
+   * @param {FromFlatOptions<NodeModelType>} [options] - The keys of the rows and the orphan handling.
+   * @returns {Tree<NodeModelType>} - The tree, empty if there are no rows.
+   * @throws {DuplicateKeyError} - If two rows share an id.
+   * @throws {FlatTreeError} - If there is not exactly one root row, or if a row is not
+   * connected to the root and `onOrphan` is "throw".
+   */
+  static fromFlat<NodeModelType>(
+    rows: NodeModelType[],
+    options: FromFlatOptions<NodeModelType> = {}
+  ): Tree<NodeModelType> {
+    const {
+      idKey = "id",
+      parentKey = "parentId",
+      rootValue = null,
+      onOrphan = "throw",
+    } = options;
+
+    return Tree.link(
+      rows,
+      idKey,
+      (row) => row[idKey],
+      (row) => {
+        const parentId = row[parentKey];
+        return parentId === rootValue ||
+          (rootValue === null && parentId === undefined)
+          ? Tree.topLevel
+          : parentId;
+      },
+      onOrphan
+    );
+  }
+
+  /**
+   * Builds a tree from the rendering of `toString`, so that fixtures can be written as outlines:
+   *
+   * ```text
+   * root
+   * ├── docs
+   * │   └── guide
+   * └── blog
+   * ```
+   *
+   * @param {string} text - The rendering, in either charset.
+   * @param {TextParseOptions & { parseOptions?: ParseOptions }} [options] - How to create the models from the labels,
+   * and the parse options of the tree.
+   * @returns {Tree<NodeModelType>} - The tree, empty if the text is blank.
+   * @throws {TreeParseError} - If a line is indented deeper than its parent's children or there are several roots.
+   */
+  static fromText<NodeModelType>(
+    text: string,
+    options: TextParseOptions & { parseOptions?: ParseOptions } = {}
+  ): Tree<NodeModelType> {
+    const { parseOptions, ...textOptions } = options;
+    return new Tree<NodeModelType>(
+      parseTreeText(text, textOptions),
+      undefined,
+      {
+        ...parseOptions,
+        childrenKey: "children",
+        modelKey: "model",
+      }
+    );
+  }
+
+  /**
+   * Builds a tree from an indented outline, such as a tab-indented or YAML-like list.
+   * List markers are removed from the labels and blank lines are ignored.
+   * @param {string} text - The outline.
+   * @param {IndentedOutlineOptions & { parseOptions?: ParseOptions }} [options] - The indentation,
+   * how to create the models, the root added above the top-level items and the parse options of the tree.
+   * @returns {Tree<NodeModelType>} - The tree, empty if the text is blank and there is no added root.
+   * @throws {TreeParseError} - If a line is not indented by whole levels, is indented deeper than its parent's children,
+   * or there are several top-level items without an added root.
+   */
+  static fromOutline<NodeModelType>(
+    text: string,
+    options: IndentedOutlineOptions & { parseOptions?: ParseOptions } = {}
+  ): Tree<NodeModelType> {
+    const { parseOptions, ...outlineOptions } = options;
+    return new Tree<NodeModelType>(
+      parseOutline(text, outlineOptions),
+      undefined,
+      { ...parseOptions, childrenKey: "children", modelKey: "model" }
+    );
+  }
+
+  /**
+   * Builds a tree from the headings of a Markdown document, each heading being the parent of the deeper headings following it.
+   * @param {string} markdown - The document.
+   * @param {OutlineParseOptions & { parseOptions?: ParseOptions }} [options] - How to create the models,
+   * the root added above the top-level headings and the parse options of the tree.
+   * @returns {Tree<NodeModelType>} - The tree, empty if there are no headings and no added root.
+   * @throws {TreeParseError} - If a heading skips a level below its parent, is above the level of the first heading,
+   * or there are several top-level headings without an added root.
+   */
+  static fromMarkdownHeadings<NodeModelType>(
+    markdown: string,
+    options: OutlineParseOptions & { parseOptions?: ParseOptions } = {}
+  ): Tree<NodeModelType> {
+    const { parseOptions, ...outlineOptions } = options;
+    return new Tree<NodeModelType>(
+      parseMarkdownHeadings(markdown, outlineOptions),
+      undefined,
+      { ...parseOptions, childrenKey: "children", modelKey: "model" }
+    );
+  }
+
+  /**
+   * Builds a tree from an XML document, with an `XmlElement` holding the tag, attributes and text
+   * as the model of each node. Children keep the document order.
+   * @param {string | Iterable<string>} source - The document, or its chunks.
+   * @param {XmlParseOptions & { parseOptions?: ParseOptions }} [options] - How to keep the text,
+   * and the parse options of the tree.
+   * @returns {Tree<XmlElement>} - The tree, empty if the document has no root element.
+   * @throws {TreeParseError} - If the document is not well-formed.
+   */
+  static fromXml(
+    source: string | Iterable<string>,
+    options: XmlParseOptions & { parseOptions?: ParseOptions } = {}
+  ): Tree<XmlElement> {
+    const { parseOptions, ...xmlOptions } = options;
+    return new Tree<XmlElement>(parseXml(source, xmlOptions), undefined, {
+      ...parseOptions,
+      childrenKey: "children",
+      modelKey: "model",
+    });
+  }
+
+  /**
+   * Builds a tree from a DOM element, such as a browser `Element`, with an `XmlElement` as the model of each node.
+   * @param {DomLikeNode} element - The root element.
+   * @param {XmlParseOptions & { parseOptions?: ParseOptions }} [options] - How to keep the text,
+   * and the parse options of the tree.
+   * @returns {Tree<XmlElement>} - The tree.
+   */
+  static fromDom(
+    element: DomLikeNode,
+    options: XmlParseOptions & { parseOptions?: ParseOptions } = {}
+  ): Tree<XmlElement> {
+    const { parseOptions, ...xmlOptions } = options;
+    return new Tree<XmlElement>(parseDom(element, xmlOptions), undefined, {
+      ...parseOptions,
+      childrenKey: "children",
+      modelKey: "model",
+    });
+  }
+
+  /**
+   * Builds a tree from rows holding materialized paths such as `/1/4/9/`,
+   * the last segment of a path identifying the row and the others its ancestors.
+   * Each row becomes the model of a node, children keep the order of the rows.
+   * @param {NodeModelType[]} rows - The rows, in any order.
+   * @param {FromPathsOptions<NodeModelType>} [options] - The keys of the rows, the separator and the orphan handling.
+   * @returns {Tree<NodeModelType>} - The tree, empty if there are no rows.
+   * @throws {DuplicateKeyError} - If two rows share a path.
+   * @throws {FlatTreeError} - If there is not exactly one root row, or if a row is not
+   * connected to the root and `onOrphan` is "throw".
+   */
+  static fromPaths<NodeModelType>(
+    rows: NodeModelType[],
+    options: FromPathsOptions<NodeModelType> = {}
+  ): Tree<NodeModelType> {
+    const {
+      idKey = "id",
+      pathKey = "path",
+      separator = "/",
+      onOrphan = "throw",
+    } = options;
+    const segmentsOf = (row: any): string[] =>
+      String(row[pathKey])
+        .split(separator)
+        .filter((segment) => segment !== "");
+
+    return Tree.link(
+      rows,
+      idKey,
+      (row) => segmentsOf(row).join(separator),
+      (row) => {
+        const segments = segmentsOf(row);
+        return segments.length <= 1
+          ? Tree.topLevel
+          : segments.slice(0, -1).join(separator);
+      },
+      onOrphan
+    );
+  }
+
+  /**
+   * Builds a tree from rows numbered as nested sets, each row enclosing the
+   * `left`/`right` interval of its descendants. Children are ordered by `left`.
+   * @param {NodeModelType[]} rows - The rows, in any order.
+   * @param {FromNestedSetsOptions<NodeModelType>} [options] - The keys of the rows and the orphan handling.
+   * @returns {Tree<NodeModelType>} - The tree, empty if there are no rows.
+   * @throws {FlatTreeError} - If there is not exactly one root row, or if the interval of a row
+   * is empty or overlaps another one and `onOrphan` is "throw".
+   */
+  static fromNestedSets<NodeModelType>(
+    rows: NodeModelType[],
+    options: FromNestedSetsOptions<NodeModelType> = {}
+  ): Tree<NodeModelType> {
+    const {
+      idKey = "id",
+      leftKey = "left",
+      rightKey = "right",
+      onOrphan = "throw",
+    } = options;
+    const left = (row: any): number => row[leftKey];
+    const right = (row: any): number => row[rightKey];
+
+    const roots: TreeNode<NodeModelType>[] = [];
+    const orphans: NodeModelType[] = [];
+    // The rows enclosing the current one, with the children found so far
+    const stack: {
+      node: TreeNode<NodeModelType>;
+      children: TreeNode<NodeModelType>[];
+    }[] = [];
+
+    // Attach the children of a row once its interval is closed, bottom-up as in `link`
+    const close = () => {
+      const { node, children } = stack.pop()!;
+      children.forEach((child) => node.addChild(child));
+    };
+
+    [...rows]
+      .sort((a, b) => left(a) - left(b))
+      .forEach((row) => {
+        while (
+          stack.length > 0 &&
+          right(stack[stack.length - 1].node.model) < left(row)
+        ) {
+          close();
+        }
+
+        const top = stack[stack.length - 1];
+        if (
+          !(left(row) < right(row)) ||
+          (top && right(row) > right(top.node.model))
+        ) {
+          orphans.push(row);
+          return;
+        }
+
+        const node = Tree.createRowNode(row, idKey);
+        if (top) {
+          top.children.push(node);
+        } else {
+          roots.push(node);
+        }
+        stack.push({ node, children: [] });
+      });
+
+    while (stack.length > 0) {
+      close();
+    }
+
+    return Tree.linked(roots, orphans, idKey, onOrphan);
+  }
+
+  /**
+   * Marks the rows at the top level for `link`.
+   */
+  private static readonly topLevel = Symbol("topLevel");
+
+  /**
+   * Builds a tree from rows linked to their parent by keys, in linear time.
+   * @param {NodeModelType[]} rows - The rows, in any order.
+   * @param {string} idKey - The property holding the id of a row.
+   * @param {(row: any) => any} keyOf - Gets the key of a row.
+   * @param {(row: any) => any} parentOf - Gets the key of the parent of a row, or `Tree.topLevel`.
+   * @param {FromFlatOptions<NodeModelType>["onOrphan"]} onOrphan - The orphan handling.
+   * @returns {Tree<NodeModelType>} - The tree, empty if there are no rows.
+   * @throws {DuplicateKeyError} - If two rows share a key.
+   * @throws {FlatTreeError} - If there is not exactly one root row, or if a row is not
+   * connected to the root and `onOrphan` is "throw".
+   */
+  private static link<NodeModelType>(
+    rows: NodeModelType[],
+    idKey: string,
+    keyOf: (row: any) => any,
+    parentOf: (row: any) => any,
+    onOrphan: FromFlatOptions<NodeModelType>["onOrphan"]
+  ): Tree<NodeModelType> {
+    const nodes = new Map<any, TreeNode<NodeModelType>>();
+    const keys = new Map<TreeNode<NodeModelType>, any>();
+    rows.forEach((row) => {
+      const key = keyOf(row);
+      if (nodes.has(key)) {
+        throw new DuplicateKeyError(key);
+      }
+
+      const node = Tree.createRowNode(row, idKey);
+      nodes.set(key, node);
+      keys.set(node, key);
+    });
+
+    // Group the rows by parent key, keeping their order
+    const roots: TreeNode<NodeModelType>[] = [];
+    const childrenOf = new Map<any, TreeNode<NodeModelType>[]>();
+    rows.forEach((row) => {
+      const parent = parentOf(row);
+      const node = nodes.get(keyOf(row))!;
+
+      if (parent === Tree.topLevel) {
+        roots.push(node);
+      } else if (childrenOf.has(parent)) {
+        childrenOf.get(parent)!.push(node);
+      } else {
+        childrenOf.set(parent, [node]);
+      }
+    });
+
+    // Attach the children bottom-up, so that each parent is still detached and
+    // the ancestor checks of addChild stay constant-time
+    const reached = new Set<TreeNode<NodeModelType>>();
+    const stack: [TreeNode<NodeModelType>, boolean][] = roots.map((root) => [
+      root,
+      false,
+    ]);
+    while (stack.length > 0) {
+      const [node, expanded] = stack.pop()!;
+      const children = childrenOf.get(keys.get(node)) ?? [];
+
+      if (expanded) {
+        children.forEach((child) => node.addChild(child));
+      } else {
+        reached.add(node);
+        stack.push([node, true]);
+        children.forEach((child) => stack.push([child, false]));
+      }
+    }
+
+    const orphans = rows.filter((row) => !reached.has(nodes.get(keyOf(row))!));
+
+    return Tree.linked(roots, orphans, idKey, onOrphan);
+  }
+
+  /**
+   * Creates the node of a row, identified by the id key of the row.
+   * @param {NodeModelType} row - The row, used as the model.
+   * @param {string} idKey - The property holding the id of the row.
+   * @returns {TreeNode<NodeModelType>} - The detached node.
+   */
+  private static createRowNode<NodeModelType>(
+    row: NodeModelType,
+    idKey: string
+  ): TreeNode<NodeModelType> {
+    const node = new TreeNode<NodeModelType>(row, 0);
+    const id = (row as any)[idKey];
+    if (id !== undefined) node.id = id;
+    return node;
+  }
+
+  /**
+   * Wraps the nodes linked from rows into a tree, reporting the invalid rows.
+   * @param {TreeNode<NodeModelType>[]} roots - The nodes of the top-level rows.
+   * @param {NodeModelType[]} orphans - The rows not connected to a root.
+   * @param {string} idKey - The property holding the id of a row.
+   * @param {FromFlatOptions<NodeModelType>["onOrphan"]} onOrphan - The orphan handling.
+   * @returns {Tree<NodeModelType>} - The tree, empty if there are no rows.
+   * @throws {FlatTreeError} - If there is not exactly one root, or if there are orphans and `onOrphan` is "throw".
+   */
+  private static linked<NodeModelType>(
+    roots: TreeNode<NodeModelType>[],
+    orphans: NodeModelType[],
+    idKey: string,
+    onOrphan: FromFlatOptions<NodeModelType>["onOrphan"] = "throw"
+  ): Tree<NodeModelType> {
+    const tree = new Tree<NodeModelType>(null, undefined, { idKey });
+
+    if (roots.length === 0 && orphans.length === 0) {
+      return tree;
+    }
+
+    if (roots.length !== 1) {
+      throw new FlatTreeError(
+        roots.map((node) => node.model),
+        orphans
+      );
+    }
+
+    if (orphans.length > 0) {
+      if (onOrphan === "throw") {
+        throw new FlatTreeError([roots[0].model], orphans);
+      }
+
+      orphans.forEach(onOrphan);
+    }
+
+    tree.root = roots[0];
+    return tree;
+  }
+
+  /**
+   * The root node of the tree.
+   * @type {TreeNode<NodeModelType> | null}
+   */
+  get root(): TreeNode<NodeModelType> | null {
+    return this.rootNode;
+  }
+
+  set root(node: TreeNode<NodeModelType> | null) {
+    const previous = this.rootNode;
+    if (previous === node) {
+      return;
+    }
+
+    // Stop listening to the previous root
+    if (previous) {
+      delete previous.changeListener;
+      delete previous.batchListener;
+    }
+
+    this.rootNode = node;
+
+    // Listen to the changes made below the new root
+    if (node) {
+      node.changeListener = (change) => this.handleChange(change);
+      node.batchListener = (fn) => this.batch(fn);
+    }
+
+    if (this.idIndex) {
+      this.reindex();
+    }
+
+    this.ancestryIndex = null;
+
+    // Report the replacement as a single change, so that it is undone in one step
+    this.events.batch(() => {
+      if (previous) {
+        this.events.emit({
+          type: "nodeRemoved",
+          node: previous,
+          parent: null,
+          index: 0,
+        });
+      }
+
+      if (node) {
+        this.events.emit({ type: "nodeAdded", node, parent: null, index: 0 });
+      }
+    });
+  }
+
+  /**
+   * Registers a listener for a mutation event, or for `change` to receive
+   * every event of a mutation or batch at once.
+   * @param {Type} type - The event type.
+   * @param {TreeListeners<NodeModelType>[Type]} listener - The listener.
+   * @returns {() => void} - A function removing the listener.
+   */
+  on<Type extends keyof TreeListeners<NodeModelType>>(
+    type: Type,
+    listener: TreeListeners<NodeModelType>[Type]
+  ): () => void {
+    this.events.on(type, listener);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Registers a listener called only for the next event of a type.
+   * @param {Type} type - The event type.
+   * @param {TreeListeners<NodeModelType>[Type]} listener - The listener.
+   * @returns {() => void} - A function removing the listener.
+   */
+  once<Type extends keyof TreeListeners<NodeModelType>>(
+    type: Type,
+    listener: TreeListeners<NodeModelType>[Type]
+  ): () => void {
+    this.events.on(type, listener, true);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Removes a listener.
+   * @param {Type} type - The event type.
+   * @param {TreeListeners<NodeModelType>[Type]} listener - The listener.
+   */
+  off<Type extends keyof TreeListeners<NodeModelType>>(
+    type: Type,
+    listener: TreeListeners<NodeModelType>[Type]
+  ): void {
+    this.events.off(type, listener);
+  }
+
+  /**
+   * Runs several mutations, emitting their events together once the function returns.
+   * @param {() => Result} fn - The function performing the mutations.
+   * @returns {Result} - The result of the function.
+   */
+  batch<Result>(fn: () => Result): Result {
+    return this.events.batch(fn);
+  }
+
+  /**
+   * Keeps the tree state in sync with a change made below the root.
+   * @param {TreeNodeChange<NodeModelType>} change - The change reported by the root.
+   */
+  private handleChange(change: TreeNodeChange<NodeModelType>): void {
+    if (this.silent) {
+      return;
+    }
+
+    if (this.idIndex) {
+      this.updateIndex(change);
+    }
+
+    if (change.type !== "update") {
+      // The ancestry index is rebuilt on the next query
+      this.ancestryIndex = null;
+    }
+
+    // Only the ancestors of a change see different subtrees
+    if (change.type === "update") {
+      this.invalidateComputed(change.node);
+    } else {
+      this.invalidateComputed(change.parent);
+      if (change.type === "move") this.invalidateComputed(change.oldParent);
+      // A removed subtree can be edited unnoticed before it is added back
+      if (change.type === "remove") this.discardComputed(change.node);
+    }
+
+    switch (change.type) {
+      case "add":
+        this.events.emit({
+          type: "nodeAdded",
+          node: change.node,
+          parent: change.parent,
+          index: change.index,
+        });
+        break;
+      case "remove":
+        this.events.emit({
+          type: "nodeRemoved",
+          node: change.node,
+          parent: change.parent,
+          index: change.index,
+        });
+        break;
+      case "move":
+        this.events.emit({
+          type: "nodeMoved",
+          node: change.node,
+          oldParent: change.oldParent,
+          oldIndex: change.oldIndex,
+          parent: change.parent,
+          index: change.index,
+        });
+        break;
+      case "update":
+        this.events.emit({
+          type: "modelUpdated",
+          node: change.node,
+          oldModel: change.oldModel,
+          model: change.node.model,
+        });
+        break;
+    }
+  }
+
+  /**
+   * Keeps the id index in sync with a change, undoing the change if it introduces a duplicate key.
+   * @param {TreeNodeChange<NodeModelType>} change - The change reported by the root.
+   * @throws {DuplicateKeyError} - If the change introduces a duplicate key and `onDuplicate` is "throw".
+   */
+  private updateIndex(change: TreeNodeChange<NodeModelType>): void {
+    if (change.type === "remove") {
+      this.unindexNodes([...change.node.preOrder()]);
+    } else if (change.type === "add") {
+      this.rollbackOnError(
+        () => this.indexNodes([...change.node.preOrder()]),
+        () => change.parent.removeChild(change.node)
+      );
+    } else if (change.type === "update") {
+      this.unindexNodes([change.node]);
+      this.rollbackOnError(
+        () => this.indexNodes([change.node]),
+        () => {
+          change.node.setModel(change.oldModel);
+          this.indexNodes([change.node]);
+        }
+      );
+    }
+  }
+
+  /**
+   * Runs a function, silently undoing the change being handled if it throws.
+   * @param {() => void} fn - The function.
+   * @param {() => void} undo - Undoes the change.
+   */
+  private rollbackOnError(fn: () => void, undo: () => void): void {
+    try {
+      fn();
+    } catch (error) {
+      this.silent = true;
+      try {
+        undo();
+      } finally {
+        this.silent = false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parses a JSON/JavaScript object into a tree.
+   * @param {any} object - The object to be parsed.
+   * @returns {TreeNode<NodeModelType> | null} - The root node of the parsed tree or null if the object is falsy.
+   * @throws {CycleError} - If the object contains itself.
+   */
+  parse(object: any): TreeNode<NodeModelType> | null {
+    if (!object) {
+      return null;
+    }
+
+    // Create a new root node with the model and index from the object
+    const rootNode = this.createNode(object, 0);
+    const children = object[this.parseOptions.childrenKey];
+
+    if (children) {
+      // Recursively parse the children of the root node
+      this.parseChildren(rootNode, children, new Set([object]));
+    }
+
+    return rootNode;
+  }
+
+  /**
+   * Creates a node from a raw object according to the parse options.
+   * @param {any} object - The raw object.
+   * @param {number} index - The index of the node.
+   * @returns {TreeNode<NodeModelType>} - The created node.
+   */
+  private createNode(object: any, index: number): TreeNode<NodeModelType> {
+    const { childrenKey, modelKey, stripChildren, idKey } = this.parseOptions;
+    let model: any;
+
+    if (modelKey !== null && object[modelKey] !== undefined) {
+      // Use the configured sub-key as the model
+      model = object[modelKey];
+    } else if (stripChildren && childrenKey in object) {
+      // Use the whole object without its children array
+      const { [childrenKey]: _children, ...rest } = object;
+      model = rest;
+    } else {
+      // Use the whole object as the model, remembering its raw children array is left out when serializing
+      model = object;
+      if (Array.isArray(object[childrenKey])) {
+        rawChildrenKeys.set(object, childrenKey);
+      }
+    }
+
+    const node = new TreeNode<NodeModelType>(model, index);
+    const id =
+      model !== null && typeof model === "object" && idKey in model
+        ? model[idKey]
+        : object[idKey];
+    if (id !== undefined) node.id = id;
+
+    return node;
+  }
+
+  /**
+   * Recursively parses the children of a node.
+   * @param {TreeNode<NodeModelType>} parentNode - The parent node.
+   * @param {any[]} children - The array of children data.
+   * @param {Set<any>} ancestors - The objects containing the children data.
+   * @throws {CycleError} - If an object contains itself.
+   */
+  private parseChildren(
+    parentNode: TreeNode<NodeModelType>,
+    children: any[],
+    ancestors: Set<any>
+  ): void {
+    if (!children) return;
+
+    children.forEach((childData, index) => {
+      if (ancestors.has(childData)) {
+        throw new CycleError("The parsed object contains itself");
+      }
+
+      // Create a new child node with the model and index from the child data
+      const childNode = this.createNode(childData, index + 1); // Assuming index starts from 1
+      // Add the child node to the parent node
+      parentNode.addChild(childNode);
+
+      // If the child data has children, recursively parse them
+      const grandChildren = childData[this.parseOptions.childrenKey];
+      if (grandChildren) {
+        ancestors.add(childData);
+        this.parseChildren(childNode, grandChildren, ancestors);
+        ancestors.delete(childData);
+      }
+    });
+  }
+
+  /**
+   * Gets all nodes in the tree.
+   * @returns {TreeNode<NodeModelType>[] | null} - An array of all nodes in the tree or null if the root is null.
+   */
+  all(): TreeNode<NodeModelType>[] | null {
+    return this.root ? this.strategy(this.root) : null;
+  }
+
+  /**
+   * Lazily yields the nodes of the tree in the given traversal order.
+   * @param {TraversalOrder} [order] - The traversal order.
+   * @param {number} [maxDepth] - The maximum depth of the yielded nodes, the root being at depth 0.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in the given order.
+   */
+  *traverse(
+    order: TraversalOrder = "pre-order",
+    maxDepth = Infinity
+  ): Generator<TreeNode<NodeModelType>> {
+    if (this.root) {
+      yield* this.root.traverse(order, maxDepth);
+    }
+  }
+
+  /**
+   * Lazily yields the nodes of the tree in pre-order.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in pre-order.
+   */
+  preOrder(): Generator<TreeNode<NodeModelType>> {
+    return this.traverse("pre-order");
+  }
+
+  /**
+   * Lazily yields the nodes of the tree in post-order.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in post-order.
+   */
+  postOrder(): Generator<TreeNode<NodeModelType>> {
+    return this.traverse("post-order");
+  }
+
+  /**
+   * Lazily yields the nodes of the tree level by level.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in level order.
+   */
+  levelOrder(): Generator<TreeNode<NodeModelType>> {
+    return this.traverse("level-order");
+  }
+
+  /**
+   * Lazily yields the nodes of the tree in reverse pre-order.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in reverse pre-order.
+   */
+  reversePreOrder(): Generator<TreeNode<NodeModelType>> {
+    return this.traverse("reverse-pre-order");
+  }
+
+  /**
+   * Lazily yields the nodes of the tree in reverse post-order.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in reverse post-order.
+   */
+  reversePostOrder(): Generator<TreeNode<NodeModelType>> {
+    return this.traverse("reverse-post-order");
+  }
+
+  /**
+   * Yields the nodes of the tree in reverse level order.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in reverse level order.
+   */
+  reverseLevelOrder(): Generator<TreeNode<NodeModelType>> {
+    return this.traverse("reverse-level-order");
+  }
+
+  /**
+   * Makes the tree iterable, lazily yielding its nodes in pre-order.
+   * @returns {Iterator<TreeNode<NodeModelType>>} - The nodes in pre-order.
+   */
+  [Symbol.iterator](): Iterator<TreeNode<NodeModelType>> {
+    return this.preOrder();
+  }
+
+  /**
+   * Removes a node from the tree.
+   * @param {TreeNode<NodeModelType>} node - The node to be removed.
+   */
+  remove(node: TreeNode<NodeModelType>): void {
+    // Check if root is not null
+    if (this.root) {
+      // Check if node is the root
+      if (this.root === node) {
+        // If removing the root, clear the entire tree
+        this.root = null;
+      } else if (this.root.isAncestorOf(node)) {
+        // Detach the node from its parent
+        node.parent?.removeChild(node);
+      }
+    }
+  }
+
+  /**
+   * Finds all the nodes matching a query expression, such as `/root//[type=folder]/[size>100]`;
+   * see `compileQuery` for the syntax.
+   * @param {string} expression - The query expression, starting from the root when it starts with `/`.
+   * @param {QueryOptions} [options] - The query options.
+   * @returns {TreeNode<NodeModelType>[]} - The matches in pre-order, empty if the root is null.
+   * @throws {QuerySyntaxError} - If the expression is invalid.
+   */
+  query(expression: string, options?: QueryOptions): TreeNode<NodeModelType>[] {
+    return this.root ? query(this.root, expression, options) : [];
+  }
+
+  /**
+   * Finds a node by a predicate function or a property name and value.
+   * @param {((node: TreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if property name is provided).
+   * @returns {TreeNode<NodeModelType> | null} - The found node or null if not found.
+   */
+  find(
+    predicateOrProperty: ((node: TreeNode<NodeModelType>) => boolean) | string,
+    value?: any
+  ): TreeNode<NodeModelType> | null {
+    if (!this.root) {
+      return null;
+    }
+
+    // Use the id index when looking up the indexed property, or the id key while the index uses the node ids
+    if (
+      typeof predicateOrProperty === "string" &&
+      this.idIndex &&
+      (this.idIndex.key === predicateOrProperty ||
+        (this.idIndex.byId && predicateOrProperty === this.parseOptions.idKey))
+    ) {
+      return this.getById(value);
+    }
+
+    const predicate =
+      typeof predicateOrProperty === "function"
+        ? predicateOrProperty
+        : (node: TreeNode<NodeModelType>) =>
+            node.model[predicateOrProperty as keyof NodeModelType] === value;
+
+    // Stop at the first match in pre-order
+    for (const node of this) {
+      if (predicate(node)) {
+        return node;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds all the nodes matching a predicate function or a property name and value.
+   * @param {((node: TreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if the property name is provided).
+   * @param {SearchOptions} [options] - The maximum depth, the root being at depth 0, and the order of the matches.
+   * @returns {TreeNode<NodeModelType>[]} - The matching nodes, empty if the root is null.
+   */
+  findAll(
+    predicate: (node: TreeNode<NodeModelType>) => boolean,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[];
+  findAll(
+    property: string,
+    value: any,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[];
+  findAll(
+    predicateOrProperty: ((node: TreeNode<NodeModelType>) => boolean) | string,
+    valueOrOptions?: any,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[] {
+    const [predicate, { maxDepth, order }] = searchArguments(
+      predicateOrProperty,
+      valueOrOptions,
+      options
+    );
+
+    const matches: TreeNode<NodeModelType>[] = [];
+    for (const node of this.traverse(order, maxDepth)) {
+      if (predicate(node)) {
+        matches.push(node);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Counts the nodes matching a predicate function or a property name and value.
+   * @param {((node: TreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if the property name is provided).
+   * @param {SearchOptions} [options] - The maximum depth, the root being at depth 0.
+   * @returns {number} - The number of matching nodes.
+   */
+  count(
+    predicate: (node: TreeNode<NodeModelType>) => boolean,
+    options?: SearchOptions
+  ): number;
+  count(property: string, value: any, options?: SearchOptions): number;
+  count(
+    predicateOrProperty: ((node: TreeNode<NodeModelType>) => boolean) | string,
+    valueOrOptions?: any,
+    options?: SearchOptions
+  ): number {
+    const [predicate, { maxDepth, order }] = searchArguments(
+      predicateOrProperty,
+      valueOrOptions,
+      options
+    );
+
+    let count = 0;
+    for (const node of this.traverse(order, maxDepth)) {
+      if (predicate(node)) {
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Removes all the nodes matching a predicate function or a property name and value, with their subtrees.
+   * The removals are emitted as a single batch.
+   * @param {((node: TreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if the property name is provided).
+   * @param {SearchOptions} [options] - The maximum depth, the root being at depth 0, and the order of the removals.
+   * @returns {TreeNode<NodeModelType>[]} - The removed nodes, excluding the matches removed with an ancestor.
+   */
+  removeAll(
+    predicate: (node: TreeNode<NodeModelType>) => boolean,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[];
+  removeAll(
+    property: string,
+    value: any,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[];
+  removeAll(
+    predicateOrProperty: ((node: TreeNode<NodeModelType>) => boolean) | string,
+    valueOrOptions?: any,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[] {
+    const [predicate, searchOptions] = searchArguments(
+      predicateOrProperty,
+      valueOrOptions,
+      options
+    );
+    // Match every node before removing any, so removals do not affect the traversal
+    const matches = this.findAll(predicate, searchOptions);
+    const matched = new Set(matches);
+
+    // A match below another match goes away with it
+    const removed = matches.filter(
+      (node) => !node.ancestors().some((ancestor) => matched.has(ancestor))
+    );
+
+    this.batch(() => removed.forEach((node) => this.remove(node)));
+
+    return removed;
+  }
+
+  /**
+   * Enables an index from a key to its node, kept in sync by the tree and node mutation methods.
+   * Call `reindex` after changing a model property used as the key.
+   * @param {IndexOptions<NodeModelType>} [options] - The index options.
+   * @throws {DuplicateKeyError} - If two nodes share a key and `onDuplicate` is "throw".
+   */
+  indexBy(options: IndexOptions<NodeModelType> = {}): void {
+    this.idIndex = {
+      key: options.key ?? ((node) => this.nodeId(node)),
+      byId: options.key === undefined,
+      onDuplicate: options.onDuplicate ?? "throw",
+      map: new Map(),
+      keys: new Map(),
+    };
+
+    try {
+      this.reindex();
+    } catch (error) {
+      // Leave the tree unindexed if the index cannot be built
+      this.idIndex = null;
+      throw error;
+    }
+  }
+
+  /**
+   * Disables the id index.
+   */
+  dropIndex(): void {
+    this.idIndex = null;
+  }
+
+  /**
+   * Rebuilds the id index from scratch.
+   * @throws {DuplicateKeyError} - If two nodes share a key and `onDuplicate` is "throw".
+   */
+  reindex(): void {
+    if (!this.idIndex) {
+      return;
+    }
+
+    this.idIndex.map.clear();
+    this.idIndex.keys.clear();
+
+    if (this.root) {
+      this.indexNodes([...this.root.preOrder()]);
+    }
+  }
+
+  /**
+   * Gets a node by its key, using the id index when enabled and the node `id` otherwise.
+   * @param {any} id - The key of the node.
+   * @returns {TreeNode<NodeModelType> | null} - The found node or null if not found.
+   */
+  getById(id: any): TreeNode<NodeModelType> | null {
+    if (this.idIndex) {
+      return this.idIndex.map.get(id) ?? null;
+    }
+
+    for (const node of this) {
+      if (this.nodeId(node) === id) {
+        return node;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the id of a node: its parsed `id`, or the id key of its model for nodes created by hand.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @returns {any} - The id of the node.
+   */
+  private nodeId(node: TreeNode<NodeModelType>): any {
+    if (node.id !== undefined) {
+      return node.id;
+    }
+
+    const model = node.model as any;
+    return model !== null && typeof model === "object"
+      ? model[this.parseOptions.idKey]
+      : undefined;
+  }
+
+  /**
+   * Checks whether a node has the given key.
+   * @param {any} id - The key of the node.
+   * @returns {boolean} - True if a node has the key.
+   */
+  hasId(id: any): boolean {
+    return this.idIndex ? this.idIndex.map.has(id) : this.getById(id) !== null;
+  }
+
+  /**
+   * Gets the key of a node according to the id index.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @returns {any} - The key of the node.
+   */
+  private keyOf(node: TreeNode<NodeModelType>): any {
+    const key = this.idIndex!.key;
+    return typeof key === "function"
+      ? key(node)
+      : (node.model as Record<string, any>)[key];
+  }
+
+  /**
+   * Adds nodes to the id index.
+   * @param {TreeNode<NodeModelType>[]} nodes - The nodes to index.
+   * @throws {DuplicateKeyError} - If a key is already indexed and `onDuplicate` is "throw".
+   */
+  private indexNodes(nodes: TreeNode<NodeModelType>[]): void {
+    const { map, keys, onDuplicate } = this.idIndex!;
+    const nodeKeys = nodes.map((n) => this.keyOf(n));
+
+    // Check every key before indexing anything
+    if (onDuplicate === "throw") {
+      const seen = new Set<any>();
+      for (const key of nodeKeys) {
+        if (key === undefined) continue;
+        if (map.has(key) || seen.has(key)) {
+          throw new DuplicateKeyError(key);
+        }
+        seen.add(key);
+      }
+    }
+
+    nodes.forEach((n, i) => {
+      const key = nodeKeys[i];
+      if (key === undefined) return;
+
+      const existing = map.get(key);
+      if (existing && existing !== n) {
+        if (typeof onDuplicate === "function") onDuplicate(key, existing, n);
+        return;
+      }
+
+      map.set(key, n);
+      keys.set(n, key);
+    });
+  }
+
+  /**
+   * Removes nodes from the id index.
+   * @param {TreeNode<NodeModelType>[]} nodes - The nodes to unindex.
+   */
+  private unindexNodes(nodes: TreeNode<NodeModelType>[]): void {
+    const { map, keys } = this.idIndex!;
+
+    for (const n of nodes) {
+      // Nodes skipped as duplicates have no key of their own
+      if (keys.has(n)) {
+        map.delete(keys.get(n));
+        keys.delete(n);
+      }
+    }
+  }
+
+  /**
+   * Moves a node to a new parent node.
+   * @param {TreeNode<NodeModelType>} node - The node to be moved.
+   * @param {TreeNode<NodeModelType>} newParent - The new parent node.
+   * @param {number} [position] - The position in the children of the new parent, appending by default.
+   * @throws {CycleError} - If the new parent is the node or one of its descendants.
+   */
+  move(
+    node: TreeNode<NodeModelType>,
+    newParent: TreeNode<NodeModelType>,
+    position: number = newParent.children.length
+  ): void {
+    if (node.parent) {
+      node.parent.moveChild(node, newParent, position);
+    } else {
+      newParent.insertAt(node, position);
+    }
+  }
+
+  /**
+   * Gets the path from the root node to a node.
+   * @param {TreeNode<NodeModelType>} node - The target node.
+   * @returns {TreeNode<NodeModelType>[] | null} - An array representing the path from the root to the target node or null if the root is null.
+   */
+  getPath(node: TreeNode<NodeModelType>): TreeNode<NodeModelType>[] | null {
+    return this.root ? this.root.getPath(node) : null;
+  }
+
+  /**
+   * Gets the reverse path from a node to the root node.
+   * @param {TreeNode<NodeModelType>} node - The target node.
+   * @returns {TreeNode<NodeModelType>[] | null} - An array representing the reverse path from the target node to the root or null if the root is null.
+   */
+  getReversePath(
+    node: TreeNode<NodeModelType>
+  ): TreeNode<NodeModelType>[] | null {
+    return this.root ? this.root.getReversePath(node) : null;
+  }
+
+  /**
+   * Folds the tree bottom-up: the reducer receives each node with the results of its children.
+   * @param {AggregateReducer<NodeModelType, Result>} reducer - The reducer.
+   * @returns {Result | undefined} - The result of the root, or undefined if the root is null.
+   */
+  aggregate<Result>(
+    reducer: AggregateReducer<NodeModelType, Result>
+  ): Result | undefined {
+    return this.root?.aggregate(reducer);
+  }
+
+  /**
+   * Declares a computed field: a subtree aggregate cached for each node and recomputed
+   * only for the ancestors of the nodes added, removed, moved or updated since.
+   * `size`, `height` and `leafCount` are declared by default.
+   * Call `invalidateComputed` after changing a model in place instead of with `updateModel`.
+   * @param {string} name - The name of the field, replacing any field with the same name.
+   * @param {AggregateReducer<NodeModelType, Result>} reducer - The reducer folding the values of the children.
+   */
+  defineComputed<Result>(
+    name: string,
+    reducer: AggregateReducer<NodeModelType, Result>
+  ): void {
+    this.computedFields.set(name, { reducer, values: new WeakMap() });
+  }
 
   /**
-   * Creates a new Tree.
-   * @param {any} object - The object representing the tree structure.
-   * @param {(node: TreeNode<NodeModelType>) => TreeNode<NodeModelType>[]} [strategy] - The traversal strategy function.
+   * Removes a computed field.
+   * @param {string} name - The name of the field.
    */
-  constructor(
-    object: any,
-    strategy?: (node: TreeNode<NodeModelType>) => TreeNode<NodeModelType>[]
-  ) {
-    // Initialize the root node by parsing the provided object
-    this.root = object ? this.parse(object) : null;
-    // Set the traversal strategy function, defaulting to depth-first order
-    if (strategy) this.strategy = strategy;
+  dropComputed(name: string): void {
+    this.computedFields.delete(name);
   }
 
   /**
-   * Parses a JSON/JavaScript object into a tree.
-   * @param {any} object - The object to be parsed.
-   * @returns {TreeNode<NodeModelType> | null} - The root node of the parsed tree or null if the object is falsy.
+   * Gets the value of a computed field for a node, computing only the uncached part of its subtree.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @param {string} name - The name of the field.
+   * @returns {Result} - The value of the field.
+   * @throws {Error} - If no field has the name.
    */
-  parse(object: any): TreeNode<NodeModelType> | null {
-    if (!object) {
-      return null;
+  computed<Result = any>(node: TreeNode<NodeModelType>, name: string): Result {
+    const field = this.computedFields.get(name);
+    if (!field) {
+      throw new Error(`Unknown computed field: ${name}`);
     }
 
-    // Create a new root node with the model and index from the object
-    const rootNode = new TreeNode(object, 0);
+    const { reducer, values } = field;
+    const stack: [TreeNode<NodeModelType>, boolean][] = [[node, false]];
 
-    if (object.children) {
-      // Recursively parse the children of the root node
-      this.parseChildren(rootNode, object.children);
+    // Post-order over the nodes without a cached value; their cached descendants are reused
+    while (stack.length > 0) {
+      const [current, expanded] = stack.pop()!;
+
+      if (expanded) {
+        values.set(
+          current,
+          reducer(
+            current,
+            current.children.map((child) => values.get(child))
+          )
+        );
+      } else if (!values.has(current)) {
+        stack.push([current, true]);
+        current.children.forEach((child) => stack.push([child, false]));
+      }
     }
 
-    return rootNode;
+    return values.get(node);
   }
 
   /**
-   * Recursively parses the children of a node.
-   * @param {TreeNode<NodeModelType>} parentNode - The parent node.
-   * @param {any[]} children - The array of children data.
+   * Discards the cached values of the computed fields for a node and its ancestors,
+   * or for every node.
+   * @param {TreeNode<NodeModelType>} [node] - The node whose subtree changed, or none to discard every value.
    */
-  private parseChildren(
-    parentNode: TreeNode<NodeModelType>,
-    children: any[]
-  ): void {
-    if (!children) return;
-
-    children.forEach((childData, index) => {
-      // Create a new child node with the model and index from the child data
-      const childNode = new TreeNode(childData, index + 1); // Assuming index starts from 1
-      // Add the child node to the parent node
-      parentNode.addChild(childNode);
+  invalidateComputed(node?: TreeNode<NodeModelType>): void {
+    this.computedFields.forEach((field) => {
+      if (!node) {
+        field.values = new WeakMap();
+        return;
+      }
 
-      // If the child data has children, recursively parse them
-      if (childData.children) {
-        this.parseChildren(childNode, childData.children);
+      // A cached node has cached descendants, so the ancestors above an uncached node are uncached
+      for (
+        let current: TreeNode<NodeModelType> | null = node;
+        current && field.values.has(current);
+        current = current.parent
+      ) {
+        field.values.delete(current);
       }
     });
   }
 
   /**
-   * Gets all nodes in the tree.
-   * @returns {TreeNode<NodeModelType>[] | null} - An array of all nodes in the tree or null if the root is null.
+   * Discards the cached values of the computed fields for every node of a subtree.
+   * @param {TreeNode<NodeModelType>} node - The root of the subtree.
    */
-  all(): TreeNode<NodeModelType>[] | null {
-    return this.root ? this.strategy(this.root) : null;
+  private discardComputed(node: TreeNode<NodeModelType>): void {
+    const fields = [...this.computedFields.values()];
+    for (const current of node.preOrder()) {
+      fields.forEach((field) => field.values.delete(current));
+    }
   }
 
   /**
-   * Removes a node from the tree.
-   * @param {TreeNode<NodeModelType>} node - The node to be removed.
+   * Makes the relationship queries (`lowestCommonAncestor`, `distance`, `isAncestorOf`,
+   * `isDescendantOf` and `pathBetween`) use an index built by binary lifting, answering in
+   * logarithmic time instead of walking parent chains. The index is rebuilt on the first query
+   * after a structural change, so it pays off for many queries on a tree that rarely changes.
    */
-  remove(node: TreeNode<NodeModelType>): void {
-    // Helper function to remove a node from an array
-    const removeFromArray = (
-      arr: TreeNode<NodeModelType>[],
-      nodeToRemove: TreeNode<NodeModelType>
-    ) => {
-      const index = arr.indexOf(nodeToRemove);
-      if (index !== -1) {
-        arr.splice(index, 1);
-      }
-    };
+  indexAncestry(): void {
+    this.ancestryIndexed = true;
+  }
 
-    // Helper function to remove a node from the tree
-    const removeFromTree = (
-      currentNode: TreeNode<NodeModelType>,
-      nodeToRemove: TreeNode<NodeModelType>
-    ) => {
-      // Remove the node from the current node's children
-      removeFromArray(currentNode.children, nodeToRemove);
-
-      // Recursively remove the node from the children of the current node
-      currentNode.children.forEach((childNode) =>
-        removeFromTree(childNode, nodeToRemove)
-      );
-    };
+  /**
+   * Stops using the ancestry index.
+   */
+  dropAncestryIndex(): void {
+    this.ancestryIndexed = false;
+    this.ancestryIndex = null;
+  }
 
-    // Check if root is not null
-    if (this.root) {
-      // Check if node is the root
-      if (this.root === node) {
-        // If removing the root, clear the entire tree
-        this.root = null;
-      } else {
-        // Remove the node from the tree
-        removeFromTree(this.root, node);
-      }
+  /**
+   * Gets the ancestry index, building it if needed.
+   * @returns {AncestryIndex<NodeModelType> | null} - The index, or null if it is disabled or the root is null.
+   */
+  private ancestry(): AncestryIndex<NodeModelType> | null {
+    if (this.ancestryIndexed && this.root && !this.ancestryIndex) {
+      this.ancestryIndex = new AncestryIndex(this.root);
     }
+
+    return this.ancestryIndexed ? this.ancestryIndex : null;
   }
 
   /**
-   * Finds a node by a predicate function or a property name and value.
-   * @param {((node: TreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
-   * @param {any} [value] - The value to compare (if property name is provided).
-   * @returns {TreeNode<NodeModelType> | null} - The found node or null if not found.
+   * Checks whether a node belongs to the tree.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @returns {boolean} - True if the root of the node is the root of the tree.
    */
-  find(
-    predicateOrProperty: ((node: TreeNode<NodeModelType>) => boolean) | string,
-    value?: any
-  ): TreeNode<NodeModelType> | null {
-    return this.root ? this.root.findChild(predicateOrProperty, value) : null;
+  private owns(node: TreeNode<NodeModelType>): boolean {
+    const index = this.ancestry();
+    return index ? index.has(node) : !!this.root && node.root() === this.root;
   }
 
   /**
-   * Moves a node to a new parent node.
-   * @param {TreeNode<NodeModelType>} node - The node to be moved.
-   * @param {TreeNode<NodeModelType>} newParent - The new parent node.
+   * Gets the deepest node that is an ancestor of two nodes, each node counting as its own ancestor.
+   * @param {TreeNode<NodeModelType>} a - The first node.
+   * @param {TreeNode<NodeModelType>} b - The second node.
+   * @returns {TreeNode<NodeModelType> | null} - The lowest common ancestor, or null if a node is not in the tree.
    */
-  move(
-    node: TreeNode<NodeModelType>,
-    newParent: TreeNode<NodeModelType>
-  ): void {
-    // Remove the node from its current parent
-    const currentParent = node.getParent(this.root);
-    currentParent?.removeChild(node);
+  lowestCommonAncestor(
+    a: TreeNode<NodeModelType>,
+    b: TreeNode<NodeModelType>
+  ): TreeNode<NodeModelType> | null {
+    const index = this.ancestry();
+    if (index) {
+      return index.lowestCommonAncestor(a, b);
+    }
 
-    // Add the node to the new parent
-    newParent.addChild(node);
+    return this.owns(a) && this.owns(b) ? a.lowestCommonAncestor(b) : null;
   }
 
   /**
-   * Gets the path from the root node to a node.
-   * @param {TreeNode<NodeModelType>} node - The target node.
-   * @returns {TreeNode<NodeModelType>[] | null} - An array representing the path from the root to the target node or null if the root is null.
+   * Counts the edges on the path between two nodes.
+   * @param {TreeNode<NodeModelType>} a - The first node.
+   * @param {TreeNode<NodeModelType>} b - The second node.
+   * @returns {number | null} - The distance, or null if a node is not in the tree.
    */
-  getPath(node: TreeNode<NodeModelType>): TreeNode<NodeModelType>[] | null {
-    return this.root ? this.root.getPath(node) : null;
+  distance(
+    a: TreeNode<NodeModelType>,
+    b: TreeNode<NodeModelType>
+  ): number | null {
+    const ancestor = this.lowestCommonAncestor(a, b);
+    if (!ancestor) {
+      return null;
+    }
+
+    const index = this.ancestry();
+    const depth = (node: TreeNode<NodeModelType>) =>
+      index ? index.depth(node) : node.depth;
+
+    return depth(a) + depth(b) - 2 * depth(ancestor);
   }
 
   /**
-   * Gets the reverse path from a node to the root node.
-   * @param {TreeNode<NodeModelType>} node - The target node.
-   * @returns {TreeNode<NodeModelType>[] | null} - An array representing the reverse path from the target node to the root or null if the root is null.
+   * Checks whether a node is a strict ancestor of another node of the tree.
+   * @param {TreeNode<NodeModelType>} ancestor - The possible ancestor.
+   * @param {TreeNode<NodeModelType>} node - The possible descendant.
+   * @returns {boolean} - True if both nodes are in the tree and the first one is on the parent chain of the second one.
    */
-  getReversePath(
+  isAncestorOf(
+    ancestor: TreeNode<NodeModelType>,
     node: TreeNode<NodeModelType>
+  ): boolean {
+    const index = this.ancestry();
+    if (index) {
+      return index.isAncestorOf(ancestor, node);
+    }
+
+    return this.owns(node) && ancestor.isAncestorOf(node);
+  }
+
+  /**
+   * Checks whether a node is a strict descendant of another node of the tree.
+   * @param {TreeNode<NodeModelType>} node - The possible descendant.
+   * @param {TreeNode<NodeModelType>} ancestor - The possible ancestor.
+   * @returns {boolean} - True if both nodes are in the tree and the second one is on the parent chain of the first one.
+   */
+  isDescendantOf(
+    node: TreeNode<NodeModelType>,
+    ancestor: TreeNode<NodeModelType>
+  ): boolean {
+    return this.isAncestorOf(ancestor, node);
+  }
+
+  /**
+   * Gets the nodes on the path between two nodes: up from the first one to their lowest
+   * common ancestor, then down to the second one.
+   * @param {TreeNode<NodeModelType>} a - The first node.
+   * @param {TreeNode<NodeModelType>} b - The second node.
+   * @returns {TreeNode<NodeModelType>[] | null} - The path including both nodes, or null if a node is not in the tree.
+   */
+  pathBetween(
+    a: TreeNode<NodeModelType>,
+    b: TreeNode<NodeModelType>
   ): TreeNode<NodeModelType>[] | null {
-    return this.root ? this.root.getReversePath(node) : null;
+    const ancestor = this.lowestCommonAncestor(a, b);
+    if (!ancestor) {
+      return null;
+    }
+
+    const up = ancestor.getReversePath(a)!;
+    const down = ancestor.getPath(b)!;
+
+    return [...up, ...down.slice(1)];
+  }
+
+  /**
+   * Replaces the model of a node, keeping the id index in sync and emitting `modelUpdated`.
+   * @param {TreeNode<NodeModelType>} node - The node to be updated.
+   * @param {NodeModelType} model - The new model.
+   */
+  updateModel(node: TreeNode<NodeModelType>, model: NodeModelType): void {
+    node.setModel(model);
+  }
+
+  /**
+   * Checks the structure of the tree: no cycles, a single consistent parent per node,
+   * unique keys and, optionally, valid models.
+   * Unlike the traversal methods, it terminates on corrupted trees.
+   * @param {ValidateOptions<NodeModelType>} [options] - The validation options.
+   * @returns {ValidationReport<NodeModelType>} - The problems found.
+   */
+  validate(
+    options: ValidateOptions<NodeModelType> = {}
+  ): ValidationReport<NodeModelType> {
+    const issues: ValidationIssue<NodeModelType>[] = [];
+    const report = (
+      type: ValidationIssue<NodeModelType>["type"],
+      node: TreeNode<NodeModelType>,
+      message: string
+    ) => issues.push({ type, node, message });
+
+    const key = options.key ?? this.idIndex?.key;
+    const keyOf = (node: TreeNode<NodeModelType>): any =>
+      typeof key === "function"
+        ? key(node)
+        : typeof key === "string"
+        ? (node.model as Record<string, any>)[key]
+        : this.nodeId(node);
+    const keys = new Map<any, TreeNode<NodeModelType>>();
+
+    const check = (node: TreeNode<NodeModelType>) => {
+      const nodeKey = keyOf(node);
+      if (nodeKey !== undefined) {
+        if (keys.has(nodeKey)) {
+          report("duplicateKey", node, `Duplicate key: ${String(nodeKey)}`);
+        } else {
+          keys.set(nodeKey, node);
+        }
+      }
+
+      const result = options.schema?.(node.model, node);
+      if (result === false) {
+        report("schema", node, "Invalid model");
+      } else if (typeof result === "string") {
+        report("schema", node, result);
+      } else if (Array.isArray(result)) {
+        result.forEach((message) => report("schema", node, message));
+      }
+    };
+
+    if (this.root) {
+      if (this.root.parent) {
+        report("parentMismatch", this.root, "The root has a parent");
+      }
+
+      // Walk the children arrays with explicit sets so corrupted trees cannot loop forever
+      const visited = new Set([this.root]);
+      const onPath = new Set([this.root]);
+      const stack: [TreeNode<NodeModelType>, number][] = [[this.root, 0]];
+      check(this.root);
+
+      while (stack.length > 0) {
+        const frame = stack[stack.length - 1];
+        const [node, position] = frame;
+
+        if (position >= node.children.length) {
+          stack.pop();
+          onPath.delete(node);
+          continue;
+        }
+
+        frame[1]++;
+        const child = node.children[position];
+
+        if (onPath.has(child)) {
+          report("cycle", child, "The node is its own ancestor");
+        } else if (visited.has(child)) {
+          report("multipleParents", child, "The node has several parents");
+        } else {
+          if (child.parent !== node) {
+            report(
+              "parentMismatch",
+              child,
+              "The parent reference does not match the children array"
+            );
+          }
+
+          visited.add(child);
+          onPath.add(child);
+          stack.push([child, 0]);
+          check(child);
+        }
+      }
+    }
+
+    return { valid: issues.length === 0, issues };
   }
 
   /**
-   * Walks through the tree and performs a callback function on each node.
-   * @param {(node: TreeNode<NodeModelType>) => void} callback - The callback function to be performed on each node.
+   * Walks through the tree depth-first and performs a callback function on each node, after its children.
+   * The callback receives the node context and can return `WalkSignal.STOP`; pass `{ enter, leave }` hooks
+   * to also be called before the children of each node, where `enter` can return `WalkSignal.SKIP`.
+   * @param {WalkVisitor<NodeModelType>} visitor - The callback or enter/leave hooks.
+   * @returns {boolean} - False if the walk was stopped, true otherwise.
    */
-  walk(callback: (node: TreeNode<NodeModelType>) => void): void {
-    // Traverse the tree using the depth-first order strategy and apply the callback to each node
-    this.root?.depthFirstSearch(this.root).forEach(callback);
+  walk(visitor: WalkVisitor<NodeModelType>): boolean {
+    return this.root ? this.root.walk(visitor) : true;
   }
 
   /**
@@ -226,4 +1921,374 @@ export class Tree<NodeModelType> {
     }
     // If no node matches the predicate, do nothing
   }
+
+  /**
+   * Creates a copy of the tree with the same strategy and parse options.
+   * @param {CloneOptions<NodeModelType>} [options] - The clone options; `deep` is always true.
+   * @returns {Tree<NodeModelType>} - The copy of the tree.
+   */
+  clone(options: CloneOptions<NodeModelType> = {}): Tree<NodeModelType> {
+    return this.withRoot(
+      this.root ? this.root.clone({ ...options, deep: true }) : null
+    );
+  }
+
+  /**
+   * Extracts the subtree rooted at a node into a standalone tree with the same strategy and parse options.
+   * @param {TreeNode<NodeModelType>} node - The root of the subtree.
+   * @param {CloneOptions<NodeModelType> & { detach?: boolean }} [options] - The clone options,
+   * or `detach: true` to move the subtree out of the current tree instead of copying it.
+   * @returns {Tree<NodeModelType>} - The tree rooted at the subtree.
+   */
+  subtree(
+    node: TreeNode<NodeModelType>,
+    options: CloneOptions<NodeModelType> & { detach?: boolean } = {}
+  ): Tree<NodeModelType> {
+    const { detach = false, ...cloneOptions } = options;
+
+    if (!detach) {
+      return this.withRoot(node.clone({ ...cloneOptions, deep: true }));
+    }
+
+    this.remove(node);
+    return this.withRoot(node);
+  }
+
+  /**
+   * Attaches the root of another tree under a node.
+   * @param {Tree<NodeModelType>} other - The tree to be grafted.
+   * @param {TreeNode<NodeModelType>} parent - The node receiving the other tree.
+   * @param {number} [position] - The position in the children of the parent, appending by default.
+   * @param {CloneOptions<NodeModelType> & { detach?: boolean }} [options] - The clone options,
+   * or `detach: true` to move the nodes of the other tree, leaving it empty, instead of copying them.
+   * @returns {TreeNode<NodeModelType> | null} - The grafted node, or null if the other tree is empty.
+   */
+  graft(
+    other: Tree<NodeModelType>,
+    parent: TreeNode<NodeModelType>,
+    position: number = parent.children.length,
+    options: CloneOptions<NodeModelType> & { detach?: boolean } = {}
+  ): TreeNode<NodeModelType> | null {
+    const { detach = false, ...cloneOptions } = options;
+    const source = other.root;
+
+    if (!source) {
+      return null;
+    }
+
+    let node: TreeNode<NodeModelType>;
+    if (detach) {
+      other.root = null;
+      node = source;
+    } else {
+      node = source.clone({ ...cloneOptions, deep: true });
+    }
+
+    parent.insertAt(node, position);
+
+    return node;
+  }
+
+  /**
+   * Creates a tree with the same shape, ids and indexes, converting each model.
+   * The new tree keeps the strategy and parse options.
+   * @param {(model: NodeModelType, node: TreeNode<NodeModelType>) => Result} fn - Converts a model; called for the children before their parent.
+   * @returns {Tree<Result>} - The converted tree.
+   */
+  map<Result>(
+    fn: (model: NodeModelType, node: TreeNode<NodeModelType>) => Result
+  ): Tree<Result> {
+    const tree = new Tree<Result>(
+      null,
+      this.strategy as unknown as (
+        node: TreeNode<Result>
+      ) => TreeNode<Result>[],
+      this.parseOptions
+    );
+    tree.root = this.root ? this.root.map(fn) : null;
+    return tree;
+  }
+
+  /**
+   * Creates a tree with the nodes matching a predicate, keeping their order.
+   * With `keepAncestors`, the ancestors of the matches are kept too, as for search-as-you-type.
+   * @param {(node: TreeNode<NodeModelType>) => boolean} predicate - Checks whether a node is kept.
+   * @param {FilterOptions<NodeModelType>} [options] - Whether to keep the ancestors of the matches and how to copy the models.
+   * @returns {Tree<NodeModelType>} - The filtered tree, empty if the root is not kept.
+   */
+  filter(
+    predicate: (node: TreeNode<NodeModelType>) => boolean,
+    options?: FilterOptions<NodeModelType>
+  ): Tree<NodeModelType> {
+    return this.withRoot(
+      this.root ? this.root.filter(predicate, options) : null
+    );
+  }
+
+  /**
+   * Creates a tree without the nodes matching a predicate and their descendants.
+   * @param {(node: TreeNode<NodeModelType>) => boolean} predicate - Checks whether a node is removed.
+   * @param {CloneOptions<NodeModelType>} [options] - How to copy the models; `deep` is ignored.
+   * @returns {Tree<NodeModelType>} - The pruned tree, empty if the root matches.
+   */
+  prune(
+    predicate: (node: TreeNode<NodeModelType>) => boolean,
+    options?: CloneOptions<NodeModelType>
+  ): Tree<NodeModelType> {
+    return this.withRoot(
+      this.root ? this.root.prune(predicate, options) : null
+    );
+  }
+
+  /**
+   * Lists the models of the tree in the order of its traversal strategy.
+   * @returns {NodeModelType[]} - The models, empty if the root is null.
+   */
+  flatten(): NodeModelType[] {
+    return (this.all() ?? []).map((node) => node.model);
+  }
+
+  /**
+   * Creates a tree with the same strategy and parse options around a root node.
+   * @param {TreeNode<NodeModelType> | null} root - The root node.
+   * @returns {Tree<NodeModelType>} - The new tree.
+   */
+  private withRoot(root: TreeNode<NodeModelType> | null): Tree<NodeModelType> {
+    const tree = new Tree<NodeModelType>(
+      null,
+      this.strategy,
+      this.parseOptions
+    );
+    tree.root = root;
+    return tree;
+  }
+
+  /**
+   * Serializes the tree to a plain object accepted by `Tree.parse`.
+   * The children and model keys default to the tree's parse options.
+   * @param {SerializeOptions<NodeModelType>} [options] - The serialization options.
+   * @returns {any} - The plain object representing the tree or null if the root is null.
+   */
+  toObject(options: SerializeOptions<NodeModelType> = {}): any {
+    const { childrenKey, modelKey } = this.parseOptions;
+    return this.root
+      ? this.root.toObject({ childrenKey, modelKey, ...options })
+      : null;
+  }
+
+  /**
+   * Serializes the tree to flat rows accepted by `Tree.fromFlat`, in pre-order.
+   * Each row copies the model and adds the parent id, the `depth` and the `position`
+   * of the node in the children of its parent.
+   * @param {FlatOptions} [options] - The keys of the rows, the id key defaulting to the parse options.
+   * @returns {any[]} - The rows, empty if the root is null.
+   */
+  toFlat(options: FlatOptions = {}): any[] {
+    const {
+      idKey = this.parseOptions.idKey,
+      parentKey = "parentId",
+      rootValue = null,
+    } = options;
+    const rows: any[] = [];
+
+    this.walk({
+      enter: (node, { depth, parent, indexInParent }) => {
+        rows.push({
+          ...this.rowOf(node, idKey),
+          [parentKey]: parent ? this.nodeId(parent) : rootValue,
+          depth,
+          position: Math.max(0, indexInParent),
+        });
+      },
+    });
+
+    return rows;
+  }
+
+  /**
+   * Serializes the tree to rows holding materialized paths, accepted by `Tree.fromPaths`, in pre-order.
+   * Each row copies the model and adds the path of the node, such as `/1/4/9/`.
+   * @param {PathsOptions<NodeModelType>} [options] - The keys of the rows, the separator and the path segment of a node.
+   * @returns {any[]} - The rows, empty if the root is null.
+   */
+  toPaths(options: PathsOptions<NodeModelType> = {}): any[] {
+    const {
+      idKey = this.parseOptions.idKey,
+      pathKey = "path",
+      separator = "/",
+      key = (node: TreeNode<NodeModelType>) => this.nodeId(node),
+    } = options;
+    const rows: any[] = [];
+
+    this.walk({
+      enter: (node) => {
+        rows.push({
+          ...this.rowOf(node, idKey),
+          [pathKey]: node.getPathString(key, separator),
+        });
+      },
+    });
+
+    return rows;
+  }
+
+  /**
+   * Serializes the tree to rows numbered as nested sets, accepted by `Tree.fromNestedSets`, in pre-order.
+   * Each row copies the model and adds the `left` and `right` numbers of the node, starting from 1,
+   * which enclose the numbers of its descendants, and its `depth`.
+   * @param {NestedSetsOptions} [options] - The keys of the rows.
+   * @returns {any[]} - The rows, empty if the root is null.
+   */
+  toNestedSets(options: NestedSetsOptions = {}): any[] {
+    const {
+      idKey = this.parseOptions.idKey,
+      leftKey = "left",
+      rightKey = "right",
+    } = options;
+    const rows: any[] = [];
+    const open: any[] = [];
+    let counter = 1;
+
+    this.walk({
+      enter: (node, { depth }) => {
+        const row = {
+          ...this.rowOf(node, idKey),
+          [leftKey]: counter++,
+          [rightKey]: 0,
+          depth,
+        };
+        rows.push(row);
+        open.push(row);
+      },
+      leave: () => {
+        open.pop()[rightKey] = counter++;
+      },
+    });
+
+    return rows;
+  }
+
+  /**
+   * Creates the row of a node: a copy of its model with its id, without the raw children array of a parsed model.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @param {string} idKey - The property holding the id of the row.
+   * @returns {any} - The row.
+   */
+  private rowOf(node: TreeNode<NodeModelType>, idKey: string): any {
+    const model = withoutRawChildren(node.model);
+    return {
+      ...(model !== null && typeof model === "object" ? model : { model }),
+      [idKey]: this.nodeId(node),
+    };
+  }
+
+  /**
+   * Returns the plain object used by `JSON.stringify`.
+   * @returns {any} - The plain object representing the tree or null if the root is null.
+   */
+  toJSON(): any {
+    return this.toObject();
+  }
+
+  /**
+   * Renders the tree like the `tree` command, in a format read back by `Tree.fromText`.
+   * @param {RenderOptions<NodeModelType>} [options] - The label, maximum depth and charset.
+   * @returns {string} - The rendering, one line per node, or an empty string if the root is null.
+   */
+  toString(options?: RenderOptions<NodeModelType>): string {
+    return this.root ? this.root.toString(options) : "";
+  }
+
+  /**
+   * Writes the tree as an indented outline, in a format read back by `Tree.fromOutline`.
+   * @param {OutlineWriteOptions<NodeModelType>} [options] - The label, indentation and whether to omit the root.
+   * @returns {string} - The outline, one line per node, or an empty string if the root is null.
+   */
+  toOutline(options?: OutlineWriteOptions<NodeModelType>): string {
+    return this.root ? renderOutline(this.root, options) : "";
+  }
+
+  /**
+   * Writes the tree as a nested Markdown list, such as a table of contents.
+   * @param {MarkdownListOptions<NodeModelType>} [options] - The label, link, marker, indentation and whether to omit the root.
+   * @returns {string} - The list, one line per node, or an empty string if the root is null.
+   */
+  toMarkdownList(options?: MarkdownListOptions<NodeModelType>): string {
+    return this.root ? renderMarkdownList(this.root, options) : "";
+  }
+
+  /**
+   * Exports the tree to the Graphviz DOT language.
+   * @param {DotOptions<NodeModelType>} [options] - The labels, attributes, highlighted path and graph attributes.
+   * @returns {string} - The DOT source of a directed graph from parents to children.
+   */
+  toDot(options?: DotOptions<NodeModelType>): string {
+    return toDot(this.root, options);
+  }
+
+  /**
+   * Exports the tree to a Mermaid flowchart.
+   * @param {MermaidOptions<NodeModelType>} [options] - The labels, attributes, highlighted path and direction.
+   * @returns {string} - The Mermaid source of a graph from parents to children.
+   */
+  toMermaid(options?: MermaidOptions<NodeModelType>): string {
+    return toMermaid(this.root, options);
+  }
+
+  /**
+   * Writes the tree as an XML document, the inverse of `Tree.fromXml`.
+   * @param {XmlWriteOptions<NodeModelType>} [options] - The element of each node, the indentation and the declaration.
+   * @returns {string} - The document, or an empty string if the root is null.
+   */
+  toXml(options?: XmlWriteOptions<NodeModelType>): string {
+    return toXml(this.root, options);
+  }
+
+  /**
+   * Creates the DOM nodes of the tree, the inverse of `Tree.fromDom`.
+   * @param {DomLikeDocument<D>} document - The document creating the nodes, such as the browser `document`.
+   * @param {(node: TreeNode<NodeModelType>) => XmlElement} [toElement] - The element of a node. Defaults to the model.
+   * @returns {D | null} - The root element, not attached to the document, or null if the root is null.
+   */
+  toDom<D>(
+    document: DomLikeDocument<D>,
+    toElement?: (node: TreeNode<NodeModelType>) => XmlElement
+  ): D | null {
+    return this.root ? toDom(this.root, document, toElement) : null;
+  }
+
+  /**
+   * Shows the rendering of the tree in `console.log` and `util.inspect` on Node.js.
+   * @returns {string} - The rendering.
+   */
+  [inspectSymbol](): string {
+    return this.root ? `Tree\n${this.toString()}` : "Tree (empty)";
+  }
+
+  /**
+   * Serializes the tree to a JSON string.
+   * @param {SerializeOptions<NodeModelType>} [options] - The serialization options.
+   * @param {string | number} [space] - The indentation passed to `JSON.stringify`.
+   * @returns {string} - The JSON string representing the tree.
+   */
+  stringify(
+    options?: SerializeOptions<NodeModelType>,
+    space?: string | number
+  ): string {
+    return JSON.stringify(this.toObject(options), null, space);
+  }
 }
+
+/**
+ * The computed fields declared on every tree.
+ */
+const builtinComputedFields: Record<string, AggregateReducer<any, number>> = {
+  // The number of nodes in the subtree
+  size: (_node, sizes) => sizes.reduce((sum, size) => sum + size, 1),
+  // The number of edges on the longest path down to a leaf
+  height: (_node, heights) =>
+    heights.reduce((max, height) => Math.max(max, height + 1), 0),
+  // The number of leaves in the subtree
+  leafCount: (_node, counts) =>
+    counts.length > 0 ? counts.reduce((sum, count) => sum + count, 0) : 1,
+};
@@ -0,0 +1,176 @@
+import { TreeNode } from "./TreeNode";
+
+/**
+ * The events emitted by a `Tree`, keyed by event type.
+ * The `index` fields are positions in the parent's children array; the root has a null parent.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface TreeEventMap<NodeModelType> {
+  nodeAdded: {
+    type: "nodeAdded";
+    node: TreeNode<NodeModelType>;
+    parent: TreeNode<NodeModelType> | null;
+    index: number;
+  };
+  nodeRemoved: {
+    type: "nodeRemoved";
+    node: TreeNode<NodeModelType>;
+    parent: TreeNode<NodeModelType> | null;
+    index: number;
+  };
+  nodeMoved: {
+    type: "nodeMoved";
+    node: TreeNode<NodeModelType>;
+    oldParent: TreeNode<NodeModelType>;
+    oldIndex: number;
+    parent: TreeNode<NodeModelType>;
+    index: number;
+  };
+  modelUpdated: {
+    type: "modelUpdated";
+    node: TreeNode<NodeModelType>;
+    oldModel: NodeModelType;
+    model: NodeModelType;
+  };
+}
+
+/**
+ * Any event emitted by a `Tree`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export type TreeEvent<NodeModelType> =
+  TreeEventMap<NodeModelType>[keyof TreeEventMap<NodeModelType>];
+
+/**
+ * The listeners accepted by `Tree.on`: one per event type, plus `change`
+ * which receives every event of a mutation or of a whole batch at once.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export type TreeListeners<NodeModelType> = {
+  [Type in keyof TreeEventMap<NodeModelType>]: (
+    event: TreeEventMap<NodeModelType>[Type]
+  ) => void;
+} & {
+  change: (events: TreeEvent<NodeModelType>[]) => void;
+};
+
+/**
+ * Dispatches the events of a `Tree` to its listeners, holding them back while a batch is open.
+ *
+ * @template NodeModelType - The type of the node's model.
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class TreeEventEmitter<NodeModelType> {
+  /**
+   * The registered listeners by event type.
+   */
+  private listeners = new Map<
+    keyof TreeListeners<NodeModelType>,
+    { listener: (...args: any[]) => void; once: boolean }[]
+  >();
+
+  /**
+   * The number of open batches.
+   */
+  private batchDepth = 0;
+
+  /**
+   * The events held back by the open batches.
+   */
+  private pending: TreeEvent<NodeModelType>[] = [];
+
+  /**
+   * Registers a listener.
+   * @param {Type} type - The event type.
+   * @param {TreeListeners<NodeModelType>[Type]} listener - The listener.
+   * @param {boolean} [once] - Whether to remove the listener after its first call.
+   */
+  on<Type extends keyof TreeListeners<NodeModelType>>(
+    type: Type,
+    listener: TreeListeners<NodeModelType>[Type],
+    once = false
+  ): void {
+    const entries = this.listeners.get(type) ?? [];
+    entries.push({ listener, once });
+    this.listeners.set(type, entries);
+  }
+
+  /**
+   * Removes a listener.
+   * @param {Type} type - The event type.
+   * @param {TreeListeners<NodeModelType>[Type]} listener - The listener.
+   */
+  off<Type extends keyof TreeListeners<NodeModelType>>(
+    type: Type,
+    listener: TreeListeners<NodeModelType>[Type]
+  ): void {
+    const entries = this.listeners.get(type);
+    if (entries) {
+      this.listeners.set(
+        type,
+        entries.filter((entry) => entry.listener !== listener)
+      );
+    }
+  }
+
+  /**
+   * Emits an event, or holds it back until the open batches are closed.
+   * @param {TreeEvent<NodeModelType>} event - The event.
+   */
+  emit(event: TreeEvent<NodeModelType>): void {
+    if (this.batchDepth > 0) {
+      this.pending.push(event);
+    } else {
+      this.dispatch([event]);
+    }
+  }
+
+  /**
+   * Runs a function, emitting the events it causes once it returns.
+   * @param {() => Result} fn - The function.
+   * @returns {Result} - The result of the function.
+   */
+  batch<Result>(fn: () => Result): Result {
+    this.batchDepth++;
+
+    try {
+      return fn();
+    } finally {
+      // Only the outermost batch flushes the events
+      if (--this.batchDepth === 0) {
+        const events = this.pending;
+        this.pending = [];
+        if (events.length > 0) this.dispatch(events);
+      }
+    }
+  }
+
+  /**
+   * Calls the listeners of each event, then the change listeners once.
+   * @param {TreeEvent<NodeModelType>[]} events - The events.
+   */
+  private dispatch(events: TreeEvent<NodeModelType>[]): void {
+    events.forEach((event) => this.call(event.type, event));
+    this.call("change", events);
+  }
+
+  /**
+   * Calls the listeners of an event type, removing the ones registered once.
+   * @param {keyof TreeListeners<NodeModelType>} type - The event type.
+   * @param {any} payload - The argument passed to the listeners.
+   */
+  private call(type: keyof TreeListeners<NodeModelType>, payload: any): void {
+    const entries = this.listeners.get(type);
+    if (!entries || entries.length === 0) return;
+
+    this.listeners.set(
+      type,
+      entries.filter((entry) => !entry.once)
+    );
+    entries.forEach((entry) => entry.listener(payload));
+  }
+}
@@ -0,0 +1,253 @@
+import { Tree } from "./Tree";
+import { TreeEvent } from "./TreeEvents";
+import { TreeNode } from "./TreeNode";
+
+/**
+ * Options for a `TreeHistory`.
+ */
+export interface TreeHistoryOptions {
+  /**
+   * The maximum number of transactions that can be undone.
+   * @default 100
+   */
+  limit?: number;
+}
+
+/**
+ * Records the mutations of a `Tree` as invertible operations and replays them for undo/redo.
+ * Each `change` notification of the tree, i.e. each mutation or `Tree.batch`, is one transaction.
+ *
+ * @template NodeModelType - The type of the node's model.
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class TreeHistory<NodeModelType> {
+  /**
+   * The tree whose mutations are recorded.
+   * @type {Tree<NodeModelType>}
+   */
+  readonly tree: Tree<NodeModelType>;
+
+  /**
+   * The maximum number of transactions that can be undone.
+   * @type {number}
+   */
+  limit: number;
+
+  /**
+   * The transactions that can be undone, oldest first.
+   */
+  private undoStack: TreeEvent<NodeModelType>[][] = [];
+
+  /**
+   * The transactions that can be redone, most recently undone last.
+   */
+  private redoStack: TreeEvent<NodeModelType>[][] = [];
+
+  /**
+   * Whether the history is replaying operations and must not record them.
+   */
+  private replaying = false;
+
+  /**
+   * Removes the change listener from the tree.
+   */
+  private unsubscribe: () => void;
+
+  /**
+   * Creates a new TreeHistory and starts recording the mutations of a tree.
+   * @param {Tree<NodeModelType>} tree - The tree whose mutations are recorded.
+   * @param {TreeHistoryOptions} [options] - The history options.
+   */
+  constructor(tree: Tree<NodeModelType>, options: TreeHistoryOptions = {}) {
+    this.tree = tree;
+    this.limit = options.limit ?? 100;
+    this.unsubscribe = tree.on("change", (events) => this.record(events));
+  }
+
+  /**
+   * Whether there is a transaction to undo.
+   * @type {boolean}
+   */
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Whether there is a transaction to redo.
+   * @type {boolean}
+   */
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Runs several mutations as a single transaction.
+   * @param {() => Result} fn - The function performing the mutations.
+   * @returns {Result} - The result of the function.
+   */
+  transaction<Result>(fn: () => Result): Result {
+    return this.tree.batch(fn);
+  }
+
+  /**
+   * Undoes the last transaction.
+   * @returns {boolean} - False if there was nothing to undo.
+   */
+  undo(): boolean {
+    const events = this.undoStack.pop();
+    if (!events) {
+      return false;
+    }
+
+    // Invert the operations from last to first
+    this.replay(() => {
+      for (let i = events.length - 1; i >= 0; i--) {
+        this.revert(events[i]);
+      }
+    });
+    this.redoStack.push(events);
+
+    return true;
+  }
+
+  /**
+   * Redoes the last undone transaction.
+   * @returns {boolean} - False if there was nothing to redo.
+   */
+  redo(): boolean {
+    const events = this.redoStack.pop();
+    if (!events) {
+      return false;
+    }
+
+    this.replay(() => events.forEach((event) => this.apply(event)));
+    this.undoStack.push(events);
+
+    return true;
+  }
+
+  /**
+   * Forgets every recorded transaction.
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Stops recording the mutations of the tree.
+   */
+  dispose(): void {
+    this.unsubscribe();
+  }
+
+  /**
+   * Records a transaction, discarding the undone ones and the oldest beyond the limit.
+   * @param {TreeEvent<NodeModelType>[]} events - The events of the transaction.
+   */
+  private record(events: TreeEvent<NodeModelType>[]): void {
+    if (this.replaying) {
+      return;
+    }
+
+    this.undoStack.push(events);
+    this.redoStack = [];
+
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+  }
+
+  /**
+   * Runs operations on the tree as one batch without recording them.
+   * @param {() => void} fn - The function performing the operations.
+   */
+  private replay(fn: () => void): void {
+    this.replaying = true;
+
+    try {
+      this.tree.batch(fn);
+    } finally {
+      this.replaying = false;
+    }
+  }
+
+  /**
+   * Performs an operation again.
+   * @param {TreeEvent<NodeModelType>} event - The event describing the operation.
+   */
+  private apply(event: TreeEvent<NodeModelType>): void {
+    switch (event.type) {
+      case "nodeAdded":
+        this.place(event.node, event.parent, event.index);
+        break;
+      case "nodeRemoved":
+        this.detach(event.node, event.parent);
+        break;
+      case "nodeMoved":
+        this.place(event.node, event.parent, event.index);
+        break;
+      case "modelUpdated":
+        this.tree.updateModel(event.node, event.model);
+        break;
+    }
+  }
+
+  /**
+   * Performs the inverse of an operation.
+   * @param {TreeEvent<NodeModelType>} event - The event describing the operation.
+   */
+  private revert(event: TreeEvent<NodeModelType>): void {
+    switch (event.type) {
+      case "nodeAdded":
+        this.detach(event.node, event.parent);
+        break;
+      case "nodeRemoved":
+        this.place(event.node, event.parent, event.index);
+        break;
+      case "nodeMoved":
+        this.place(event.node, event.oldParent, event.oldIndex);
+        break;
+      case "modelUpdated":
+        this.tree.updateModel(event.node, event.oldModel);
+        break;
+    }
+  }
+
+  /**
+   * Attaches a node at a position, or makes it the root when it has no parent.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @param {TreeNode<NodeModelType> | null} parent - The parent node, or null for the root.
+   * @param {number} index - The position in the children of the parent.
+   */
+  private place(
+    node: TreeNode<NodeModelType>,
+    parent: TreeNode<NodeModelType> | null,
+    index: number
+  ): void {
+    if (!parent) {
+      this.tree.root = node;
+      return;
+    }
+
+    this.tree.move(node, parent, index);
+  }
+
+  /**
+   * Detaches a node from its parent, or clears the root when it has no parent.
+   * @param {TreeNode<NodeModelType>} node - The node.
+   * @param {TreeNode<NodeModelType> | null} parent - The parent node, or null for the root.
+   */
+  private detach(
+    node: TreeNode<NodeModelType>,
+    parent: TreeNode<NodeModelType> | null
+  ): void {
+    if (!parent) {
+      if (this.tree.root === node) this.tree.root = null;
+      return;
+    }
+
+    parent.removeChild(node);
+  }
+}
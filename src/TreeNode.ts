@@ -1,3 +1,224 @@
+import { CycleError, MultipleParentsError } from "./errors";
+import { QueryOptions, query } from "./query";
+import { RenderOptions, inspectSymbol, renderTree } from "./text";
+
+/**
+ * The orders supported by the lazy traversal generators.
+ */
+export type TraversalOrder =
+  | "pre-order"
+  | "post-order"
+  | "level-order"
+  | "reverse-pre-order"
+  | "reverse-post-order"
+  | "reverse-level-order";
+
+/**
+ * Signals a walk callback can return to control the traversal.
+ */
+export enum WalkSignal {
+  /** Do not descend into the children of the entered node. Ignored when leaving a node. */
+  SKIP = "skip",
+  /** Abort the walk. */
+  STOP = "stop",
+}
+
+/**
+ * Describes the position of a node visited by a walk.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface WalkContext<NodeModelType> {
+  /** The depth of the node relative to the node the walk started from. */
+  depth: number;
+  /** The parent of the node, or null for the node the walk started from. */
+  parent: TreeNode<NodeModelType> | null;
+  /** The nodes from the node the walk started from to the visited node, inclusive. */
+  path: TreeNode<NodeModelType>[];
+  /** The position of the node in its parent's children, or -1 for the node the walk started from. */
+  indexInParent: number;
+}
+
+/**
+ * A callback invoked by a walk, optionally returning a `WalkSignal`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export type WalkCallback<NodeModelType> = (
+  node: TreeNode<NodeModelType>,
+  context: WalkContext<NodeModelType>
+) => WalkSignal | void;
+
+/**
+ * A walk visitor: a callback invoked when leaving each node, after its children, or enter/leave hooks.
+ * `leave` is called after the children of a node, including when `enter` returned `SKIP`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export type WalkVisitor<NodeModelType> =
+  | WalkCallback<NodeModelType>
+  | {
+      enter?: WalkCallback<NodeModelType>;
+      leave?: WalkCallback<NodeModelType>;
+    };
+
+/**
+ * Folds the results of the children of a node into the result of the node.
+ *
+ * @template NodeModelType - The type of the node's model.
+ * @template Result - The type of the result.
+ */
+export type AggregateReducer<NodeModelType, Result> = (
+  node: TreeNode<NodeModelType>,
+  childResults: Result[]
+) => Result;
+
+/**
+ * Options controlling how nodes are cloned.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface CloneOptions<NodeModelType> {
+  /**
+   * Whether to clone the descendants too.
+   * @default true
+   */
+  deep?: boolean;
+
+  /**
+   * Whether to deep copy the models of plain objects, arrays and dates, or a function copying a model.
+   * Models are shared with the original nodes otherwise.
+   * @default false
+   */
+  cloneModel?: boolean | ((model: NodeModelType) => NodeModelType);
+}
+
+/**
+ * Options for `filter`: which nodes are kept and how they are copied.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface FilterOptions<NodeModelType>
+  extends Omit<CloneOptions<NodeModelType>, "deep"> {
+  /**
+   * Whether to keep the ancestors of the matching nodes. Otherwise, a node is kept only
+   * if it and all its ancestors match.
+   * @default false
+   */
+  keepAncestors?: boolean;
+}
+
+/**
+ * Options controlling how nodes are serialized back to plain objects.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface SerializeOptions<NodeModelType> {
+  /**
+   * The property receiving the children array. The models taken from whole raw objects by `Tree.parse`
+   * are emitted without the raw children array they still hold, unless a `replacer` is given.
+   * @default "children"
+   */
+  childrenKey?: string;
+
+  /**
+   * The property receiving the model. When `null`, the model properties are
+   * spread into the emitted object instead.
+   * @default "model"
+   */
+  modelKey?: string | null;
+
+  /**
+   * Whether to omit the children array of leaf nodes.
+   * @default false
+   */
+  omitEmptyChildren?: boolean;
+
+  /**
+   * Whether to emit the `index` of each node.
+   * @default false
+   */
+  includeIndex?: boolean;
+
+  /**
+   * Maps each model before it is emitted.
+   */
+  replacer?: (model: NodeModelType, node: TreeNode<NodeModelType>) => any;
+}
+
+/**
+ * Options for the plural search methods, such as `findDescendants` and `Tree.findAll`.
+ */
+export interface SearchOptions {
+  /**
+   * The maximum depth of the matches, relative to the node the search starts from.
+   * @default Infinity
+   */
+  maxDepth?: number;
+
+  /**
+   * The order of the matches.
+   * @default "pre-order"
+   */
+  order?: TraversalOrder;
+}
+
+/**
+ * Describes a change made by a node mutation method.
+ * The `index` fields are positions in the parent's children array.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export type TreeNodeChange<NodeModelType> =
+  | {
+      type: "add";
+      node: TreeNode<NodeModelType>;
+      parent: TreeNode<NodeModelType>;
+      index: number;
+    }
+  | {
+      type: "remove";
+      node: TreeNode<NodeModelType>;
+      parent: TreeNode<NodeModelType>;
+      index: number;
+    }
+  | {
+      type: "move";
+      node: TreeNode<NodeModelType>;
+      oldParent: TreeNode<NodeModelType>;
+      oldIndex: number;
+      parent: TreeNode<NodeModelType>;
+      index: number;
+    }
+  | {
+      type: "update";
+      node: TreeNode<NodeModelType>;
+      oldModel: NodeModelType;
+    };
+
+/**
+ * The models taken from whole raw objects by `Tree.parse`, with the key of the raw children array they still hold.
+ */
+export const rawChildrenKeys = new WeakMap<object, string>();
+
+/**
+ * Leaves out the raw children array of a model taken from a whole raw object, a stale copy of the subtree.
+ * @param {any} model - The model.
+ * @returns {any} - The model, or a copy without its raw children array.
+ */
+export function withoutRawChildren(model: any): any {
+  const key =
+    model !== null && typeof model === "object"
+      ? rawChildrenKeys.get(model)
+      : undefined;
+  if (key === undefined || !Array.isArray(model[key])) {
+    return model;
+  }
+
+  const { [key]: _children, ...rest } = model;
+  return rest;
+}
+
 /**
  * Represents a node in a generic tree structure.
  *
@@ -20,11 +241,39 @@ export class TreeNode<NodeModelType> {
   children: TreeNode<NodeModelType>[] = [];
 
   /**
-   * The index of the node.
+   * The index of the node: its position among its siblings starting from 1, or 0 for a root.
+   * Kept in sync by the child mutation methods.
    * @type {number}
    */
   index: number;
 
+  /**
+   * The id of the node, set by `Tree.parse` from the configured id key.
+   * @type {any}
+   */
+  id?: any;
+
+  /**
+   * The parent of the node, kept in sync by the child mutation methods.
+   * @type {TreeNode<NodeModelType> | null}
+   * @default null
+   */
+  parent: TreeNode<NodeModelType> | null = null;
+
+  /**
+   * The listener notified of every change made below this node while it is a root.
+   * `Tree` sets it on its root node to keep its own state in sync.
+   * @type {(change: TreeNodeChange<NodeModelType>) => void}
+   */
+  changeListener?: (change: TreeNodeChange<NodeModelType>) => void;
+
+  /**
+   * Runs the changes of a mutation method made of several steps, so that they are reported together.
+   * `Tree` sets it on its root node to group them in a batch.
+   * @type {(fn: () => void) => void}
+   */
+  batchListener?: (fn: () => void) => void;
+
   /**
    * The traversal strategy function for the node.
    * @type {(node: TreeNode<NodeModelType>) => TreeNode<NodeModelType>[]}
@@ -49,13 +298,26 @@ export class TreeNode<NodeModelType> {
     if (strategy) this.strategy = strategy;
   }
 
+  /**
+   * Replaces the model of the node.
+   * @param {NodeModelType} model - The new model.
+   */
+  setModel(model: NodeModelType): void {
+    const oldModel = this.model;
+    this.model = model;
+    this.notify({ type: "update", node: this, oldModel });
+  }
+
   /**
    * Adds a child node to the current node.
    * @param {TreeNode<NodeModelType> | null} child - The child node to be added.
+   * @throws {MultipleParentsError} - If the child already has a parent.
+   * @throws {CycleError} - If the child is the current node or one of its ancestors.
    */
   addChild(child: TreeNode<NodeModelType> | null): void {
     if (child) {
-      this.children.push(child);
+      this.assertDetached(child);
+      this.place(child, this.children.length);
     }
   }
 
@@ -65,22 +327,245 @@ export class TreeNode<NodeModelType> {
    */
   removeChild(child: TreeNode<NodeModelType> | null): void {
     if (child) {
+      const index = this.children.indexOf(child);
       this.children = this.children.filter((c) => c !== child);
+      if (child.parent === this) child.parent = null;
+
+      if (index !== -1) {
+        // A detached node is the root of its own subtree
+        child.index = 0;
+        this.renumber(index);
+        this.notify({ type: "remove", node: child, parent: this, index });
+      }
+    }
+  }
+
+  /**
+   * Ensures a node about to be added has no parent, so that it never appears under two parents.
+   * @param {TreeNode<NodeModelType>} child - The node about to be added.
+   * @throws {MultipleParentsError} - If the node already has a parent.
+   */
+  private assertDetached(child: TreeNode<NodeModelType>): void {
+    if (child.parent) {
+      throw new MultipleParentsError();
+    }
+  }
+
+  /**
+   * Inserts a node at a position, detaching it from its previous parent.
+   * @param {TreeNode<NodeModelType>} child - The node to be inserted.
+   * @param {number} position - The position among the remaining children, clamped to their bounds.
+   * @throws {CycleError} - If the node is the current node or one of its ancestors.
+   */
+  private place(child: TreeNode<NodeModelType>, position: number): void {
+    if (child === this || child.isAncestorOf(this)) {
+      throw new CycleError();
+    }
+
+    // Detach the child first so the position refers to the remaining children
+    const previous = this.release(child);
+    const index = Math.max(0, Math.min(position, this.children.length));
+    this.children.splice(index, 0, child);
+    this.attached(child, previous);
+  }
+
+  /**
+   * Detaches a child from its previous parent before it is attached to the current node.
+   * Moves within the same tree are detached silently and reported once attached.
+   * @param {TreeNode<NodeModelType>} child - The child about to be attached.
+   * @returns {{ parent: TreeNode<NodeModelType>; index: number } | null} - The previous position to report as a move, or null.
+   */
+  private release(
+    child: TreeNode<NodeModelType>
+  ): { parent: TreeNode<NodeModelType>; index: number } | null {
+    const oldParent = child.parent;
+
+    if (!oldParent) {
+      return null;
+    }
+
+    if (oldParent.root() !== this.root()) {
+      // Moving across trees is a removal followed by an addition
+      oldParent.removeChild(child);
+      return null;
+    }
+
+    const index = oldParent.children.indexOf(child);
+    oldParent.children = oldParent.children.filter((c) => c !== child);
+    oldParent.renumber(index);
+    child.parent = null;
+
+    return { parent: oldParent, index };
+  }
+
+  /**
+   * Sets the parent of a child just inserted into the children array and reports the change.
+   * @param {TreeNode<NodeModelType>} child - The inserted child.
+   * @param {{ parent: TreeNode<NodeModelType>; index: number } | null} previous - The previous position returned by `release`.
+   */
+  private attached(
+    child: TreeNode<NodeModelType>,
+    previous: { parent: TreeNode<NodeModelType>; index: number } | null
+  ): void {
+    child.parent = this;
+    const index = this.children.lastIndexOf(child);
+    this.renumber(index);
+
+    this.notify(
+      previous
+        ? {
+            type: "move",
+            node: child,
+            oldParent: previous.parent,
+            oldIndex: previous.index,
+            parent: this,
+            index,
+          }
+        : { type: "add", node: child, parent: this, index }
+    );
+  }
+
+  /**
+   * Sets the index of each child to its position, starting from 1 as `Tree.parse` does.
+   * @param {number} [from] - The first position whose index may be stale.
+   */
+  private renumber(from: number = 0): void {
+    for (let i = Math.max(0, from); i < this.children.length; i++) {
+      this.children[i].index = i + 1;
+    }
+  }
+
+  /**
+   * Reports a change to the listener of the root of the current node, if any.
+   * @param {TreeNodeChange<NodeModelType>} change - The change to report.
+   */
+  private notify(change: TreeNodeChange<NodeModelType>): void {
+    this.root().changeListener?.(change);
+  }
+
+  /**
+   * Runs several changes so that they are reported as one.
+   * @param {() => void} fn - The function making the changes.
+   */
+  private group(fn: () => void): void {
+    const batchListener = this.root().batchListener;
+    if (batchListener) {
+      batchListener(fn);
+    } else {
+      fn();
+    }
+  }
+
+  /**
+   * Inserts a child node at a position.
+   * @param {TreeNode<NodeModelType> | null} child - The child node to be inserted.
+   * @param {number} position - The position in the children array, clamped to its bounds.
+   * @throws {MultipleParentsError} - If the child already has a parent.
+   * @throws {CycleError} - If the child is the current node or one of its ancestors.
+   */
+  insertAt(child: TreeNode<NodeModelType> | null, position: number): void {
+    if (child) {
+      this.assertDetached(child);
+      this.place(child, position);
     }
   }
 
+  /**
+   * Gets the position of a child node.
+   * @param {TreeNode<NodeModelType>} child - The child node.
+   * @returns {number} - The position in the children array, or -1 if not a child.
+   */
+  indexOf(child: TreeNode<NodeModelType>): number {
+    return this.children.indexOf(child);
+  }
+
+  /**
+   * The next child of the parent, or null for the last child or a root.
+   * @type {TreeNode<NodeModelType> | null}
+   */
+  get nextSibling(): TreeNode<NodeModelType> | null {
+    return this.parent
+      ? this.parent.children[this.parent.indexOf(this) + 1] ?? null
+      : null;
+  }
+
+  /**
+   * The previous child of the parent, or null for the first child or a root.
+   * @type {TreeNode<NodeModelType> | null}
+   */
+  get previousSibling(): TreeNode<NodeModelType> | null {
+    return this.parent
+      ? this.parent.children[this.parent.indexOf(this) - 1] ?? null
+      : null;
+  }
+
+  /**
+   * Swaps the positions of two children of the current node, reported as a single change.
+   * @param {TreeNode<NodeModelType>} a - The first child.
+   * @param {TreeNode<NodeModelType>} b - The second child.
+   */
+  swapChildren(a: TreeNode<NodeModelType>, b: TreeNode<NodeModelType>): void {
+    const i = this.indexOf(a);
+    const j = this.indexOf(b);
+    if (i === -1 || j === -1 || i === j) {
+      return;
+    }
+
+    // Move the later child to the earlier position, then the other one to the later position
+    const [first, last] = i < j ? [a, b] : [b, a];
+    const [low, high] = i < j ? [i, j] : [j, i];
+    this.group(() => {
+      this.place(last, low);
+      this.place(first, high);
+    });
+  }
+
+  /**
+   * Sorts the children of the current node, and of its descendants if `recursive` is true.
+   * The sort is stable and reported as moves, grouped in a single change.
+   * @param {(a: TreeNode<NodeModelType>, b: TreeNode<NodeModelType>) => number} comparator - The comparison function.
+   * @param {{ recursive?: boolean }} [options] - The sort options.
+   */
+  sortChildren(
+    comparator: (
+      a: TreeNode<NodeModelType>,
+      b: TreeNode<NodeModelType>
+    ) => number,
+    options: { recursive?: boolean } = {}
+  ): void {
+    const sorted = this.children.slice().sort(comparator);
+
+    this.group(() => {
+      // Move each child into place, skipping the ones already there
+      sorted.forEach((child, position) => {
+        if (this.children[position] !== child) {
+          this.place(child, position);
+        }
+      });
+
+      if (options.recursive) {
+        this.children.forEach((child) =>
+          child.sortChildren(comparator, options)
+        );
+      }
+    });
+  }
+
   /**
    * Moves a child node to a new parent node.
    * @param {TreeNode<NodeModelType> | null} child - The child node to be moved.
    * @param {TreeNode<NodeModelType> | null} newParent - The new parent node.
+   * @param {number} [position] - The position in the children of the new parent, appending by default.
+   * @throws {CycleError} - If the new parent is the child or one of its descendants.
    */
   moveChild(
     child: TreeNode<NodeModelType> | null,
-    newParent: TreeNode<NodeModelType> | null
+    newParent: TreeNode<NodeModelType> | null,
+    position?: number
   ): void {
     if (child && newParent) {
-      this.removeChild(child);
-      newParent.addChild(child);
+      // Placing the child into its new parent also removes it from the current node
+      newParent.place(child, position ?? newParent.children.length);
     }
   }
 
@@ -135,38 +620,21 @@ export class TreeNode<NodeModelType> {
     // Initialize the path array
     const path: TreeNode<NodeModelType>[] = [];
 
-    // Helper function to perform the traversal
-    const traverse = (currentNode: TreeNode<NodeModelType> | null): boolean => {
-      if (!currentNode) {
-        return false;
-      }
-
-      // Add the current node to the path
+    // Walk up the parent references from the target node to the current node
+    let currentNode: TreeNode<NodeModelType> | null = targetNode;
+    while (currentNode) {
       path.push(currentNode);
 
-      // Check if the current node is the target node
-      if (currentNode === targetNode) {
-        return true;
-      }
-
-      // Recursively traverse the children
-      for (const child of currentNode.children) {
-        if (traverse(child)) {
-          return true;
-        }
+      if (currentNode === this) {
+        // The target node is in the subtree, return the path from the top
+        return path.reverse();
       }
 
-      // If the target node is not found in the subtree, remove the current node from the path
-      path.pop();
-
-      return false;
-    };
-
-    // Start the traversal from the root
-    traverse(this);
+      currentNode = currentNode.parent;
+    }
 
-    // If the target node is found, return the path; otherwise, return null
-    return path.length > 0 ? path : null;
+    // The target node is not a descendant of the current node
+    return null;
   }
 
   /**
@@ -191,6 +659,22 @@ export class TreeNode<NodeModelType> {
     return reversePath;
   }
 
+  /**
+   * Gets the materialized path of the current node from its root, such as `/1/4/9/`.
+   * @param {(node: TreeNode<NodeModelType>) => any} [key] - The path segment of a node, its id by default.
+   * @param {string} [separator] - The separator of the path segments.
+   * @returns {string} - The path string, starting and ending with the separator.
+   */
+  getPathString(
+    key: (node: TreeNode<NodeModelType>) => any = (node) => node.id,
+    separator: string = "/"
+  ): string {
+    const path = this.root().getPath(this)!;
+    return (
+      separator + path.map((node) => String(key(node)) + separator).join("")
+    );
+  }
+
   /**
    * Gets the parent node of a child node.
    * @param {TreeNode<NodeModelType> | null} child - The target child node.
@@ -199,22 +683,123 @@ export class TreeNode<NodeModelType> {
   getParent(
     child: TreeNode<NodeModelType> | null
   ): TreeNode<NodeModelType> | null {
-    if (!child) {
-      // If the child is null, return null (no parent)
+    if (!child || !child.parent) {
+      // If the child is null or detached, return null (no parent)
       return null;
     }
 
-    // Iterate through the children to find the matching node
-    for (const node of this.children) {
-      if (node.children.includes(child)) {
-        return node;
-      }
-      const parent = node.getParent(child);
-      if (parent) {
-        return parent;
+    // The parent is only returned if it belongs to the subtree of the current node
+    return child.parent === this || this.isAncestorOf(child.parent)
+      ? child.parent
+      : null;
+  }
+
+  /**
+   * Gets the ancestors of the current node, from its parent up to the root.
+   * @returns {TreeNode<NodeModelType>[]} - An array of the ancestors of the current node.
+   */
+  ancestors(): TreeNode<NodeModelType>[] {
+    const result: TreeNode<NodeModelType>[] = [];
+
+    for (let node = this.parent; node; node = node.parent) {
+      result.push(node);
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks whether the current node is a strict ancestor of a node.
+   * @param {TreeNode<NodeModelType>} node - The node to check.
+   * @returns {boolean} - True if the current node is on the parent chain of the node.
+   */
+  isAncestorOf(node: TreeNode<NodeModelType>): boolean {
+    for (let current = node.parent; current; current = current.parent) {
+      if (current === this) {
+        return true;
       }
     }
-    return null;
+
+    return false;
+  }
+
+  /**
+   * Checks whether the current node is a strict descendant of a node.
+   * @param {TreeNode<NodeModelType>} node - The node to check.
+   * @returns {boolean} - True if the node is on the parent chain of the current node.
+   */
+  isDescendantOf(node: TreeNode<NodeModelType>): boolean {
+    return node.isAncestorOf(this);
+  }
+
+  /**
+   * Gets the deepest node that is both an ancestor of the current node and of another node,
+   * each node counting as its own ancestor.
+   * @param {TreeNode<NodeModelType>} other - The other node.
+   * @returns {TreeNode<NodeModelType> | null} - The lowest common ancestor, or null if the nodes are in different trees.
+   */
+  lowestCommonAncestor(
+    other: TreeNode<NodeModelType>
+  ): TreeNode<NodeModelType> | null {
+    let a: TreeNode<NodeModelType> | null = this;
+    let b: TreeNode<NodeModelType> | null = other;
+    let depthA = this.depth;
+    let depthB = other.depth;
+
+    // Lift the deeper node to the depth of the other one, then lift both until they meet
+    for (; depthA > depthB; depthA--) a = a!.parent;
+    for (; depthB > depthA; depthB--) b = b!.parent;
+
+    while (a !== b) {
+      a = a!.parent;
+      b = b!.parent;
+    }
+
+    return a;
+  }
+
+  /**
+   * Gets the root of the tree the current node belongs to.
+   * @returns {TreeNode<NodeModelType>} - The topmost ancestor, or the current node if it has no parent.
+   */
+  root(): TreeNode<NodeModelType> {
+    let node: TreeNode<NodeModelType> = this;
+
+    while (node.parent) {
+      node = node.parent;
+    }
+
+    return node;
+  }
+
+  /**
+   * The number of edges between the current node and its root.
+   * @type {number}
+   */
+  get depth(): number {
+    let depth = 0;
+
+    for (let node = this.parent; node; node = node.parent) {
+      depth++;
+    }
+
+    return depth;
+  }
+
+  /**
+   * Whether the current node has no parent.
+   * @type {boolean}
+   */
+  get isRoot(): boolean {
+    return this.parent === null;
+  }
+
+  /**
+   * Whether the current node has no children.
+   * @type {boolean}
+   */
+  get isLeaf(): boolean {
+    return this.children.length === 0;
   }
 
   /**
@@ -243,6 +828,43 @@ export class TreeNode<NodeModelType> {
     return this.children.filter(predicate);
   }
 
+  /**
+   * Finds all the descendants of the current node matching a predicate function or a property name and value.
+   * @param {((node: TreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+   * @param {any} [value] - The value to compare (if the property name is provided).
+   * @param {SearchOptions} [options] - The maximum depth and the order of the matches.
+   * @returns {TreeNode<NodeModelType>[]} - The matching descendants, excluding the current node.
+   */
+  findDescendants(
+    predicate: (node: TreeNode<NodeModelType>) => boolean,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[];
+  findDescendants(
+    property: string,
+    value: any,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[];
+  findDescendants(
+    predicateOrProperty: ((node: TreeNode<NodeModelType>) => boolean) | string,
+    valueOrOptions?: any,
+    options?: SearchOptions
+  ): TreeNode<NodeModelType>[] {
+    const [predicate, { maxDepth, order }] = searchArguments(
+      predicateOrProperty,
+      valueOrOptions,
+      options
+    );
+
+    const matches: TreeNode<NodeModelType>[] = [];
+    for (const node of this.traverse(order, maxDepth)) {
+      if (node !== this && predicate(node)) {
+        matches.push(node);
+      }
+    }
+
+    return matches;
+  }
+
   /**
    * Deletes all child nodes by a predicate function or a property name and value.
    * @param {((node: TreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
@@ -264,8 +886,8 @@ export class TreeNode<NodeModelType> {
         node.model[predicateOrProperty as keyof NodeModelType] === value;
     }
 
-    // Remove children that match the predicate function
-    this.children = this.children.filter((child) => !predicate(child));
+    // Remove children that match the predicate function one by one
+    this.children.filter(predicate).forEach((child) => this.removeChild(child));
   }
 
   /**
@@ -273,6 +895,8 @@ export class TreeNode<NodeModelType> {
    * @param {TreeNode<NodeModelType> | null} child - The new child node to be inserted.
    * @param {((node: TreeNode<NodeModelType>) => boolean) | string} predicateOrProperty - The predicate function or property name.
    * @param {any} [value] - The value to compare (if the property name is provided).
+   * @throws {MultipleParentsError} - If the child already has a parent.
+   * @throws {CycleError} - If the child is the current node or one of its ancestors.
    */
   insertChild(
     child: TreeNode<NodeModelType> | null,
@@ -284,6 +908,8 @@ export class TreeNode<NodeModelType> {
       return;
     }
 
+    this.assertDetached(child);
+
     const insertIndex =
       typeof predicateOrProperty === "function"
         ? this.children.findIndex(predicateOrProperty)
@@ -292,14 +918,259 @@ export class TreeNode<NodeModelType> {
               (node.model as Record<string, any>)[predicateOrProperty] === value
           );
 
-    if (insertIndex !== -1) {
-      this.children.splice(insertIndex, 0, child);
-    } else {
-      // If not found, simply append the child
-      this.children.push(child);
+    // If not found, simply append the child
+    this.place(child, insertIndex !== -1 ? insertIndex : this.children.length);
+  }
+
+  /**
+   * Finds the nodes matching a query expression, such as `folder//[size>100]`.
+   * Relative queries start from the children of the current node, absolute ones from its root;
+   * see `compileQuery` for the syntax.
+   * @param {string} expression - The query expression.
+   * @param {QueryOptions} [options] - The query options.
+   * @returns {TreeNode<NodeModelType>[]} - The matches in pre-order.
+   * @throws {QuerySyntaxError} - If the expression is invalid.
+   */
+  query(expression: string, options?: QueryOptions): TreeNode<NodeModelType>[] {
+    return query(this, expression, options);
+  }
+
+  /**
+   * Lazily yields the nodes of the subtree in pre-order (parent before its children).
+   * @param {number} [maxDepth] - The maximum depth of the yielded nodes, relative to the current node.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in pre-order.
+   */
+  *preOrder(maxDepth = Infinity): Generator<TreeNode<NodeModelType>> {
+    yield* this.depthFirst(true, false, maxDepth);
+  }
+
+  /**
+   * Lazily yields the nodes of the subtree in post-order (children before their parent).
+   * @param {number} [maxDepth] - The maximum depth of the yielded nodes, relative to the current node.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in post-order.
+   */
+  *postOrder(maxDepth = Infinity): Generator<TreeNode<NodeModelType>> {
+    yield* this.depthFirst(false, false, maxDepth);
+  }
+
+  /**
+   * Lazily yields the nodes of the subtree level by level (breadth-first).
+   * @param {number} [maxDepth] - The maximum depth of the yielded nodes, relative to the current node.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in level order.
+   */
+  *levelOrder(maxDepth = Infinity): Generator<TreeNode<NodeModelType>> {
+    const queue: TreeNode<NodeModelType>[] = [this];
+    // The depth of the current level and the queue position where the next one starts
+    let depth = 0;
+    let levelEnd = 1;
+
+    // Advance a read position instead of shifting the queue
+    for (let head = 0; head < queue.length; head++) {
+      if (head === levelEnd) {
+        depth++;
+        levelEnd = queue.length;
+      }
+
+      const current = queue[head];
+      yield current;
+      if (depth < maxDepth) {
+        queue.push(...current.children);
+      }
+    }
+  }
+
+  /**
+   * Lazily yields the nodes of the subtree in reverse pre-order.
+   * @param {number} [maxDepth] - The maximum depth of the yielded nodes, relative to the current node.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in reverse pre-order.
+   */
+  *reversePreOrder(maxDepth = Infinity): Generator<TreeNode<NodeModelType>> {
+    // The reverse of pre-order is post-order visiting the children from last to first
+    yield* this.depthFirst(false, true, maxDepth);
+  }
+
+  /**
+   * Lazily yields the nodes of the subtree in reverse post-order.
+   * @param {number} [maxDepth] - The maximum depth of the yielded nodes, relative to the current node.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in reverse post-order.
+   */
+  *reversePostOrder(maxDepth = Infinity): Generator<TreeNode<NodeModelType>> {
+    // The reverse of post-order is pre-order visiting the children from last to first
+    yield* this.depthFirst(true, true, maxDepth);
+  }
+
+  /**
+   * Yields the nodes of the subtree in reverse level order.
+   * The level order has to be computed before the first node is yielded.
+   * @param {number} [maxDepth] - The maximum depth of the yielded nodes, relative to the current node.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in reverse level order.
+   */
+  *reverseLevelOrder(maxDepth = Infinity): Generator<TreeNode<NodeModelType>> {
+    const nodes = [...this.levelOrder(maxDepth)];
+
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      yield nodes[i];
+    }
+  }
+
+  /**
+   * Lazily yields the nodes of the subtree in the given traversal order.
+   * @param {TraversalOrder} [order] - The traversal order.
+   * @param {number} [maxDepth] - The maximum depth of the yielded nodes, relative to the current node.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The nodes in the given order.
+   */
+  traverse(
+    order: TraversalOrder = "pre-order",
+    maxDepth = Infinity
+  ): Generator<TreeNode<NodeModelType>> {
+    switch (order) {
+      case "post-order":
+        return this.postOrder(maxDepth);
+      case "level-order":
+        return this.levelOrder(maxDepth);
+      case "reverse-pre-order":
+        return this.reversePreOrder(maxDepth);
+      case "reverse-post-order":
+        return this.reversePostOrder(maxDepth);
+      case "reverse-level-order":
+        return this.reverseLevelOrder(maxDepth);
+      default:
+        return this.preOrder(maxDepth);
+    }
+  }
+
+  /**
+   * Iterative depth-first traversal shared by the pre-order and post-order generators.
+   * @param {boolean} pre - Whether to yield a node before (true) or after (false) its children.
+   * @param {boolean} reverse - Whether to visit the children from last to first.
+   * @param {number} maxDepth - The maximum depth of the visited nodes.
+   * @returns {Generator<TreeNode<NodeModelType>>} - The visited nodes.
+   */
+  private *depthFirst(
+    pre: boolean,
+    reverse: boolean,
+    maxDepth: number
+  ): Generator<TreeNode<NodeModelType>> {
+    // Each frame holds a node and the position of the next child to visit
+    const stack: [TreeNode<NodeModelType>, number][] = [[this, 0]];
+    if (pre) yield this;
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const [node, position] = frame;
+
+      // The depth of the node is the number of frames below it
+      if (position < node.children.length && stack.length <= maxDepth) {
+        frame[1]++;
+        const child =
+          node.children[
+            reverse ? node.children.length - 1 - position : position
+          ];
+        if (pre) yield child;
+        stack.push([child, 0]);
+      } else {
+        stack.pop();
+        if (!pre) yield node;
+      }
     }
   }
 
+  /**
+   * Folds the subtree bottom-up: the reducer receives each node with the results of its children.
+   * @param {AggregateReducer<NodeModelType, Result>} reducer - The reducer.
+   * @returns {Result} - The result of the current node.
+   */
+  aggregate<Result>(reducer: AggregateReducer<NodeModelType, Result>): Result {
+    const results = new Map<TreeNode<NodeModelType>, Result>();
+
+    for (const node of this.postOrder()) {
+      results.set(
+        node,
+        reducer(
+          node,
+          node.children.map((child) => results.get(child)!)
+        )
+      );
+      // The results of the children are no longer needed
+      node.children.forEach((child) => results.delete(child));
+    }
+
+    return results.get(this)!;
+  }
+
+  /**
+   * Walks the subtree depth-first, calling the visitor when entering and leaving each node.
+   * A plain callback is called when leaving each node, so the children are visited before their parent;
+   * pass `{ enter }` to visit the parent first. `enter` can return `WalkSignal.SKIP` to prune the children
+   * of a node, and any callback can return `WalkSignal.STOP` to abort.
+   * @param {WalkVisitor<NodeModelType>} visitor - The callback or enter/leave hooks.
+   * @returns {boolean} - False if the walk was stopped, true otherwise.
+   */
+  walk(visitor: WalkVisitor<NodeModelType>): boolean {
+    const { enter, leave } =
+      typeof visitor === "function"
+        ? { enter: undefined, leave: visitor }
+        : visitor;
+
+    // Each frame holds a node, its context and the position of the next child to visit
+    const stack: {
+      node: TreeNode<NodeModelType>;
+      context: WalkContext<NodeModelType>;
+      position: number;
+    }[] = [];
+    const path: TreeNode<NodeModelType>[] = [];
+
+    const visit = (
+      node: TreeNode<NodeModelType>,
+      parent: TreeNode<NodeModelType> | null,
+      indexInParent: number
+    ): WalkSignal | void => {
+      path.push(node);
+      const context = {
+        depth: path.length - 1,
+        parent,
+        path: path.slice(),
+        indexInParent,
+      };
+      const signal = enter?.(node, context);
+
+      // Skipped nodes are pushed past their last child so only leave is called
+      stack.push({
+        node,
+        context,
+        position: signal === WalkSignal.SKIP ? node.children.length : 0,
+      });
+
+      return signal;
+    };
+
+    if (visit(this, null, -1) === WalkSignal.STOP) {
+      return false;
+    }
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+
+      if (frame.position < frame.node.children.length) {
+        const position = frame.position++;
+        const child = frame.node.children[position];
+
+        if (visit(child, frame.node, position) === WalkSignal.STOP) {
+          return false;
+        }
+      } else {
+        stack.pop();
+        path.pop();
+
+        if (leave?.(frame.node, frame.context) === WalkSignal.STOP) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
   /**
    * Performs a depth-first search on the tree starting from the given node,
    * following the specified traversal mode.
@@ -317,65 +1188,180 @@ export class TreeNode<NodeModelType> {
       | "reverse-post-order"
       | "reverse-in-order" = "in-order"
   ): TreeNode<NodeModelType>[] {
-    // Array to store the result of the depth-first search
-    const result: TreeNode<NodeModelType>[] = [];
-
-    // Recursive function to traverse the tree in the specified mode
-    const traverse = (currentNode: TreeNode<NodeModelType>): void => {
-      // Depending on the traversal mode, add the current node to the result array
-      if (order.includes("pre-order")) {
-        result.push(currentNode);
-      }
+    // A node is visited after its children in both the in-order and post-order modes
+    switch (order) {
+      case "pre-order":
+        return [...node.preOrder()];
+      case "reverse-pre-order":
+        return [...node.reversePreOrder()];
+      case "reverse-post-order":
+      case "reverse-in-order":
+        return [...node.reversePostOrder()];
+      default:
+        return [...node.postOrder()];
+    }
+  }
 
-      // Recursively traverse the children of the current node
-      for (const child of currentNode.children) {
-        traverse(child);
-      }
+  /**
+   * Returns the breadth-first order traversal strategy.
+   * @param {TreeNode<NodeModelType>} node - The current node.
+   * @returns {TreeNode<NodeModelType>[]} - The list of nodes in breadth-first order.
+   */
+  breadthFirstOrder(node: TreeNode<NodeModelType>): TreeNode<NodeModelType>[] {
+    return [...node.levelOrder()];
+  }
 
-      // Depending on the traversal mode, add the current node to the result array
-      if (order.includes("in-order")) {
-        result.push(currentNode);
-      } else if (order.includes("post-order")) {
-        result.push(currentNode);
-      }
-    };
+  /**
+   * Creates a detached copy of the node, with its descendants unless `deep` is false.
+   * @param {CloneOptions<NodeModelType>} [options] - The clone options.
+   * @returns {TreeNode<NodeModelType>} - The copy of the node.
+   */
+  clone(options: CloneOptions<NodeModelType> = {}): TreeNode<NodeModelType> {
+    const { deep = true, cloneModel = false } = options;
+    const model =
+      typeof cloneModel === "function"
+        ? cloneModel(this.model)
+        : cloneModel
+        ? cloneValue(this.model)
+        : this.model;
 
-    // Start the depth-first search from the specified node
-    traverse(node);
+    const copy = new TreeNode(model, this.index, this.strategy);
+    if (this.id !== undefined) copy.id = this.id;
+    // A copied model still holds the copied raw children array
+    const rawChildrenKey = rawChildrenKeys.get(this.model as any);
+    if (rawChildrenKey !== undefined && model !== this.model) {
+      rawChildrenKeys.set(model as any, rawChildrenKey);
+    }
 
-    // If the traversal mode is reversed, return the result array in reverse order
-    if (
-      order === "reverse-pre-order" ||
-      order === "reverse-post-order" ||
-      order === "reverse-in-order"
-    ) {
-      return result.reverse();
+    if (deep) {
+      this.children.forEach((child) => copy.addChild(child.clone(options)));
     }
 
-    // Return the result array
-    return result;
+    return copy;
   }
 
   /**
-   * Returns the breadth-first order traversal strategy.
-   * @param {TreeNode<NodeModelType>} node - The current node.
-   * @returns {TreeNode<NodeModelType>[]} - The list of nodes in breadth-first order.
+   * Copies the subtree with the same shape, ids and indexes, converting each model.
+   * @param {(model: NodeModelType, node: TreeNode<NodeModelType>) => Result} fn - Converts a model; called for the children before their parent.
+   * @returns {TreeNode<Result>} - The copy of the current node.
    */
-  breadthFirstOrder(node: TreeNode<NodeModelType>): TreeNode<NodeModelType>[] {
-    // Initialize the result array with the current node
-    let result: TreeNode<NodeModelType>[] = [];
-    const queue: TreeNode<NodeModelType>[] = [node];
+  map<Result>(
+    fn: (model: NodeModelType, node: TreeNode<NodeModelType>) => Result
+  ): TreeNode<Result> {
+    // Build bottom-up, so that each copy gets its children while it is still detached
+    return this.aggregate<TreeNode<Result>>((node, copies) => {
+      const copy = new TreeNode<Result>(
+        fn(node.model, node),
+        node.index,
+        node.strategy as unknown as (
+          node: TreeNode<Result>
+        ) => TreeNode<Result>[]
+      );
+      if (node.id !== undefined) copy.id = node.id;
+
+      copies.forEach((child) => copy.addChild(child));
+      return copy;
+    });
+  }
 
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      result.push(current);
+  /**
+   * Copies the nodes of the subtree matching a predicate, keeping their order.
+   * @param {(node: TreeNode<NodeModelType>) => boolean} predicate - Checks whether a node is kept; called for the children before their parent.
+   * @param {FilterOptions<NodeModelType>} [options] - Whether to keep the ancestors of the matches and how to copy the models.
+   * @returns {TreeNode<NodeModelType> | null} - The copy of the current node, or null if it is not kept.
+   */
+  filter(
+    predicate: (node: TreeNode<NodeModelType>) => boolean,
+    options: FilterOptions<NodeModelType> = {}
+  ): TreeNode<NodeModelType> | null {
+    const { keepAncestors = false, ...cloneOptions } = options;
+
+    return this.aggregate<TreeNode<NodeModelType> | null>((node, copies) => {
+      const kept = copies.filter(
+        (copy): copy is TreeNode<NodeModelType> => copy !== null
+      );
+      if (!predicate(node) && !(keepAncestors && kept.length > 0)) {
+        return null;
+      }
+
+      const copy = node.clone({ ...cloneOptions, deep: false });
+      kept.forEach((child) => copy.addChild(child));
+      return copy;
+    });
+  }
 
-      // Enqueue the children for further exploration
-      queue.push(...current.children);
+  /**
+   * Copies the subtree without the nodes matching a predicate and their descendants.
+   * @param {(node: TreeNode<NodeModelType>) => boolean} predicate - Checks whether a node is removed.
+   * @param {CloneOptions<NodeModelType>} [options] - How to copy the models; `deep` is ignored.
+   * @returns {TreeNode<NodeModelType> | null} - The copy of the current node, or null if it matches.
+   */
+  prune(
+    predicate: (node: TreeNode<NodeModelType>) => boolean,
+    options: CloneOptions<NodeModelType> = {}
+  ): TreeNode<NodeModelType> | null {
+    const { deep: _deep, ...cloneOptions } = options;
+    return this.filter((node) => !predicate(node), cloneOptions);
+  }
+
+  /**
+   * Serializes the node and its descendants to a plain object accepted by `Tree.parse`.
+   * @param {SerializeOptions<NodeModelType>} [options] - The serialization options.
+   * @returns {any} - The plain object representing the subtree.
+   */
+  toObject(options: SerializeOptions<NodeModelType> = {}): any {
+    const {
+      childrenKey = "children",
+      modelKey = "model",
+      omitEmptyChildren = false,
+      includeIndex = false,
+      replacer,
+    } = options;
+
+    const model = replacer
+      ? replacer(this.model, this)
+      : withoutRawChildren(this.model);
+    // Either nest the model under its key or spread its properties
+    const result: Record<string, any> =
+      modelKey === null ? { ...model } : { [modelKey]: model };
+
+    if (includeIndex) {
+      result.index = this.index;
+    }
+
+    if (this.children.length > 0 || !omitEmptyChildren) {
+      result[childrenKey] = this.children.map((child) =>
+        child.toObject(options)
+      );
     }
 
     return result;
   }
+
+  /**
+   * Returns the plain object used by `JSON.stringify`.
+   * @returns {any} - The plain object representing the subtree.
+   */
+  toJSON(): any {
+    return this.toObject();
+  }
+
+  /**
+   * Renders the node and its descendants like the `tree` command.
+   * @param {RenderOptions<NodeModelType>} [options] - The label, maximum depth and charset.
+   * @returns {string} - The rendering, one line per node.
+   */
+  toString(options?: RenderOptions<NodeModelType>): string {
+    return renderTree(this, options);
+  }
+
+  /**
+   * Shows the rendering of the subtree in `console.log` and `util.inspect` on Node.js.
+   * @returns {string} - The rendering.
+   */
+  [inspectSymbol](): string {
+    return `TreeNode\n${this.toString()}`;
+  }
 }
 
 /**
@@ -386,3 +1372,72 @@ export class TreeNode<NodeModelType> {
 export function defaultTraversalStrategy<T>(node: TreeNode<T>): TreeNode<T>[] {
   return node.depthFirstSearch(node);
 }
+
+/**
+ * Creates a traversal strategy returning the nodes in the given order.
+ * @param {TraversalOrder} order - The traversal order.
+ * @returns {(node: TreeNode<T>) => TreeNode<T>[]} - The traversal strategy.
+ */
+export function traversalStrategy<T>(
+  order: TraversalOrder
+): (node: TreeNode<T>) => TreeNode<T>[] {
+  return (node) => [...node.traverse(order)];
+}
+
+/**
+ * Resolves the arguments of the plural search methods: a predicate function and options,
+ * or a property name, a value and options.
+ * @param {((node: TreeNode<T>) => boolean) | string} predicateOrProperty - The predicate function or property name.
+ * @param {any} valueOrOptions - The value to compare, or the options when a predicate function is provided.
+ * @param {SearchOptions} [options] - The options when a property name is provided.
+ * @returns {[(node: TreeNode<T>) => boolean, Required<SearchOptions>]} - The predicate and the options with their defaults.
+ */
+export function searchArguments<T>(
+  predicateOrProperty: ((node: TreeNode<T>) => boolean) | string,
+  valueOrOptions: any,
+  options?: SearchOptions
+): [(node: TreeNode<T>) => boolean, Required<SearchOptions>] {
+  let predicate: (node: TreeNode<T>) => boolean;
+
+  if (typeof predicateOrProperty === "function") {
+    predicate = predicateOrProperty;
+    options = valueOrOptions;
+  } else {
+    predicate = (node) =>
+      node.model[predicateOrProperty as keyof T] === valueOrOptions;
+  }
+
+  const { maxDepth = Infinity, order = "pre-order" } = options ?? {};
+  return [predicate, { maxDepth, order }];
+}
+
+/**
+ * Deep copies plain objects, arrays and dates, returning any other value as is.
+ * @param {T} value - The value to copy.
+ * @returns {T} - The copy.
+ */
+function cloneValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => cloneValue(item)) as unknown as T;
+  }
+
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as unknown as T;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const proto = Object.getPrototypeOf(value);
+    // Class instances are shared since their constructor cannot be replayed safely
+    if (proto !== Object.prototype && proto !== null) {
+      return value;
+    }
+
+    const copy: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneValue(item);
+    }
+    return copy as T;
+  }
+
+  return value;
+}
@@ -0,0 +1,324 @@
+import { DuplicateKeyError, NodeNotFoundError } from "./errors";
+import { NodeKey, Tree } from "./Tree";
+import { TreeNode } from "./TreeNode";
+
+/**
+ * An operation produced by `diffTrees` and replayed by `applyPatch`.
+ * Nodes are referred to by key; `index` fields are positions in the parent's children array.
+ * An `add` with a null parent key replaces the root.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export type TreeOperation<NodeModelType> =
+  | {
+      type: "add";
+      key: any;
+      parentKey: any | null;
+      index: number;
+      model: NodeModelType;
+    }
+  | { type: "remove"; key: any }
+  | {
+      type: "move";
+      key: any;
+      oldParentKey: any;
+      oldIndex: number;
+      parentKey: any;
+      index: number;
+    }
+  | { type: "update"; key: any; oldModel: NodeModelType; model: NodeModelType };
+
+/**
+ * Options for `diffTrees` and `applyPatch`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface DiffOptions<NodeModelType> {
+  /**
+   * The key matching the nodes of both trees. Defaults to the node `id` set by `Tree.parse`.
+   */
+  key?: NodeKey<NodeModelType>;
+
+  /**
+   * Compares two models to detect updates.
+   * @default deep equality of plain values, ignoring the children array left in models by `Tree.parse`
+   */
+  equals?: (a: NodeModelType, b: NodeModelType) => boolean;
+}
+
+/**
+ * Computes the operations turning one tree into another, matching their nodes by key.
+ * Applying the operations in order with `applyPatch` gives a tree with the shape and models of the target.
+ * @param {Tree<T>} source - The original tree.
+ * @param {Tree<T>} target - The changed tree.
+ * @param {DiffOptions<T>} [options] - The diff options.
+ * @returns {TreeOperation<T>[]} - The operations.
+ * @throws {DuplicateKeyError} - If two nodes of a tree share a key.
+ */
+export function diffTrees<T>(
+  source: Tree<T>,
+  target: Tree<T>,
+  options: DiffOptions<T> = {}
+): TreeOperation<T>[] {
+  const keyOf = keyExtractor(options.key);
+  const equals = options.equals ?? modelEquals(source.parseOptions.childrenKey);
+  const operations: TreeOperation<T>[] = [];
+
+  // Replay the operations on a copy of the source to know the current positions
+  const working = source.clone();
+  const nodes = keyMap(working, keyOf);
+  const targetKeys = keyMap(target, keyOf);
+
+  // Whether a node of the working tree has the given parent in the target
+  const staysIn = (node: TreeNode<T>, parent: TreeNode<T>): boolean => {
+    const targetNode = targetKeys.get(keyOf(node));
+    return !!targetNode?.parent && keyOf(targetNode.parent) === keyOf(parent);
+  };
+
+  const emit = (operation: TreeOperation<T>) => {
+    operations.push(operation);
+    applyOperation(working, nodes, operation, keyOf, !options.key);
+  };
+
+  if (!target.root) {
+    if (working.root) emit({ type: "remove", key: keyOf(working.root) });
+    return operations;
+  }
+
+  // A different root key replaces the whole tree
+  if (working.root && keyOf(working.root) !== keyOf(target.root)) {
+    emit({ type: "remove", key: keyOf(working.root) });
+  }
+
+  // Remove the nodes missing from the target first, topmost first, so that they do not shift their siblings.
+  // The ones holding kept nodes are removed last, once these have been moved out.
+  const holders = new Set<TreeNode<T>>();
+  for (const node of [...working.preOrder()].reverse()) {
+    if (node.parent && (targetKeys.has(keyOf(node)) || holders.has(node))) {
+      holders.add(node.parent);
+    }
+  }
+  for (const node of [...working.preOrder()]) {
+    const removable = !targetKeys.has(keyOf(node)) && !holders.has(node);
+    const parentKept =
+      !node.parent ||
+      targetKeys.has(keyOf(node.parent)) ||
+      holders.has(node.parent);
+    if (removable && parentKept) {
+      emit({ type: "remove", key: keyOf(node) });
+    }
+  }
+
+  // Visiting the target in pre-order places every parent before its children,
+  // so a node is never moved below one of its own descendants
+  for (const node of target.preOrder()) {
+    const key = keyOf(node);
+    const parentKey = node.parent ? keyOf(node.parent) : null;
+    const targetIndex = node.parent ? node.parent.children.indexOf(node) : 0;
+    const current = nodes.get(key);
+
+    // The previous siblings of the target are already in place, so the node goes right after them
+    let index = 0;
+    const previous = node.parent && node.parent.children[targetIndex - 1];
+    if (previous) {
+      const siblings = nodes.get(parentKey)!.children;
+      index =
+        siblings
+          .filter((sibling) => sibling !== current)
+          .indexOf(nodes.get(keyOf(previous))!) + 1;
+    }
+
+    if (!current) {
+      emit({ type: "add", key, parentKey, index, model: node.model });
+      continue;
+    }
+
+    if (current.parent) {
+      const oldParentKey = keyOf(current.parent);
+      const oldIndex = current.parent.children.indexOf(current);
+      // Only the siblings staying in the same parent tell whether the node is in place
+      const position = current.parent.children
+        .filter((sibling) => staysIn(sibling, current.parent!))
+        .indexOf(current);
+      if (oldParentKey !== parentKey || position !== targetIndex) {
+        emit({ type: "move", key, oldParentKey, oldIndex, parentKey, index });
+      }
+    }
+
+    if (!equals(current.model, node.model)) {
+      emit({ type: "update", key, oldModel: current.model, model: node.model });
+    }
+  }
+
+  // Every kept node has been placed, so the remaining nodes are removed, topmost first
+  for (const node of [...working.preOrder()]) {
+    const key = keyOf(node);
+    const removedParent = node.parent && !targetKeys.has(keyOf(node.parent));
+    if (!targetKeys.has(key) && !removedParent) {
+      emit({ type: "remove", key });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Replays operations produced by `diffTrees` through the `Tree` mutation methods.
+ * @param {Tree<T>} tree - The tree to be changed.
+ * @param {TreeOperation<T>[]} operations - The operations.
+ * @param {DiffOptions<T>} [options] - The options used to compute the operations.
+ * @throws {NodeNotFoundError} - If an operation refers to a key that is not in the tree.
+ */
+export function applyPatch<T>(
+  tree: Tree<T>,
+  operations: TreeOperation<T>[],
+  options: DiffOptions<T> = {}
+): void {
+  const keyOf = keyExtractor(options.key);
+  const nodes = keyMap(tree, keyOf);
+
+  tree.batch(() =>
+    operations.forEach((operation) =>
+      applyOperation(tree, nodes, operation, keyOf, !options.key)
+    )
+  );
+}
+
+/**
+ * Applies one operation, keeping the key map in sync.
+ * @param {Tree<T>} tree - The tree to be changed.
+ * @param {Map<any, TreeNode<T>>} nodes - The nodes of the tree by key.
+ * @param {TreeOperation<T>} operation - The operation.
+ * @param {(node: TreeNode<T>) => any} keyOf - The key-extractor function.
+ * @param {boolean} setId - Whether added nodes are keyed by their id.
+ */
+function applyOperation<T>(
+  tree: Tree<T>,
+  nodes: Map<any, TreeNode<T>>,
+  operation: TreeOperation<T>,
+  keyOf: (node: TreeNode<T>) => any,
+  setId: boolean
+): void {
+  const find = (key: any): TreeNode<T> => {
+    const node = nodes.get(key);
+    if (!node) throw new NodeNotFoundError(key);
+    return node;
+  };
+
+  switch (operation.type) {
+    case "add": {
+      const node = new TreeNode<T>(operation.model, operation.index + 1);
+      if (setId) node.id = operation.key;
+
+      if (operation.parentKey === null) {
+        tree.root = node;
+      } else {
+        find(operation.parentKey).insertAt(node, operation.index);
+      }
+      nodes.set(operation.key, node);
+      break;
+    }
+    case "remove": {
+      const node = find(operation.key);
+      for (const removed of node.preOrder()) {
+        nodes.delete(keyOf(removed));
+      }
+      tree.remove(node);
+      break;
+    }
+    case "move":
+      tree.move(
+        find(operation.key),
+        find(operation.parentKey),
+        operation.index
+      );
+      break;
+    case "update":
+      tree.updateModel(find(operation.key), operation.model);
+      break;
+  }
+}
+
+/**
+ * Builds a key-extractor function from a model property name or function.
+ * @param {NodeKey<T>} [key] - The key, defaulting to the node id.
+ * @returns {(node: TreeNode<T>) => any} - The key-extractor function.
+ */
+function keyExtractor<T>(key?: NodeKey<T>): (node: TreeNode<T>) => any {
+  if (typeof key === "function") return key;
+  if (typeof key === "string") {
+    return (node) => (node.model as Record<string, any>)[key];
+  }
+  return (node) => node.id;
+}
+
+/**
+ * Maps the nodes of a tree by key.
+ * @param {Tree<T>} tree - The tree.
+ * @param {(node: TreeNode<T>) => any} keyOf - The key-extractor function.
+ * @returns {Map<any, TreeNode<T>>} - The nodes by key.
+ * @throws {DuplicateKeyError} - If two nodes share a key.
+ */
+function keyMap<T>(
+  tree: Tree<T>,
+  keyOf: (node: TreeNode<T>) => any
+): Map<any, TreeNode<T>> {
+  const nodes = new Map<any, TreeNode<T>>();
+
+  for (const node of tree) {
+    const key = keyOf(node);
+    if (nodes.has(key)) throw new DuplicateKeyError(key);
+    nodes.set(key, node);
+  }
+
+  return nodes;
+}
+
+/**
+ * Builds the default model comparison, ignoring the children array kept in models parsed from whole raw objects.
+ * @param {string} childrenKey - The property holding the children array.
+ * @returns {(a: T, b: T) => boolean} - The comparison function.
+ */
+function modelEquals<T>(childrenKey: string): (a: T, b: T) => boolean {
+  const withoutChildren = (model: any) => {
+    if (
+      model === null ||
+      typeof model !== "object" ||
+      Array.isArray(model) ||
+      !(childrenKey in model)
+    ) {
+      return model;
+    }
+    const { [childrenKey]: _children, ...rest } = model;
+    return rest;
+  };
+  return (a, b) => deepEqual(withoutChildren(a), withoutChildren(b));
+}
+
+/**
+ * Compares plain values structurally.
+ * @param {any} a - The first value.
+ * @param {any} b - The second value.
+ * @returns {boolean} - True if both values are equal.
+ */
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (
+    a === null ||
+    b === null ||
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => deepEqual(a[key], b[key]))
+  );
+}
@@ -0,0 +1,507 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Tree } from "./Tree";
+import { TreeNode } from "./TreeNode";
+
+/**
+ * The model of a node loaded by `fromDirectory`.
+ */
+export interface FileModel {
+  /**
+   * The name of the file or directory.
+   */
+  name: string;
+
+  /**
+   * The absolute path of the file or directory.
+   */
+  path: string;
+
+  /**
+   * Whether the entry is a directory. A symbolic link is not a directory unless links are followed.
+   */
+  isDirectory: boolean;
+
+  /**
+   * The size in bytes.
+   */
+  size: number;
+
+  /**
+   * The last modification time.
+   */
+  mtime: Date;
+}
+
+/**
+ * A filter of `DirectoryOptions`: a regular expression tested against the path relative to the root,
+ * with `/` separators, or a function of the model.
+ */
+export type FileFilter = RegExp | ((model: FileModel) => boolean);
+
+/**
+ * Options for `fromDirectory` and `watchDirectory`.
+ */
+export interface DirectoryOptions {
+  /**
+   * The files to keep. Directories are always kept, so that the files below them can match.
+   */
+  include?: FileFilter;
+
+  /**
+   * The files and directories to leave out, directories with everything below them.
+   */
+  exclude?: FileFilter;
+
+  /**
+   * Follows symbolic links, reading linked directories unless they contain the link.
+   * @default false
+   */
+  followSymlinks?: boolean;
+
+  /**
+   * The depth below which directories are not read, the root being at depth 0.
+   * @default Infinity
+   */
+  maxDepth?: number;
+
+  /**
+   * Receives the errors of the entries below the root that cannot be read, which are skipped,
+   * and for `watchDirectory` the errors of the watchers and of the updates. Without it, they are emitted
+   * as process warnings, as throwing from a timer or a watcher callback would crash the process.
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Options for `watchDirectory`.
+ */
+export interface WatchOptions extends DirectoryOptions {
+  /**
+   * The time in milliseconds to wait after a filesystem event, so that the changes made together are applied at once
+   * and a rename seen by two directories becomes a single move.
+   * @default 50
+   */
+  delay?: number;
+}
+
+/**
+ * A watcher returned by `watchDirectory`.
+ */
+export interface DirectoryWatcher {
+  /**
+   * Reads every watched directory again and applies the differences at once, without waiting for events.
+   */
+  refresh(): void;
+
+  /**
+   * Stops watching the directories.
+   */
+  close(): void;
+}
+
+/**
+ * An entry read from the filesystem: its model and the device and inode identifying it across renames.
+ */
+interface Entry {
+  model: FileModel;
+  inode: string;
+}
+
+/**
+ * Loads a directory hierarchy as a tree, with children in name order. This module uses the Node.js
+ * filesystem and is only exported by the `ts-tree-lib/node` entry point, rather than as a static
+ * `Tree.fromDirectory` that would bring it into the main entry point.
+ * An entry below the root that cannot be read is skipped, and a directory that cannot be listed is kept without children.
+ * @param {string} root - The path of the root directory.
+ * @param {DirectoryOptions} [options] - The filters, the handling of symbolic links, the maximum depth and the error handler.
+ * @returns {Tree<FileModel>} - The tree of the directory.
+ * @throws {Error} - If the root cannot be read.
+ */
+export function fromDirectory(
+  root: string,
+  options: DirectoryOptions = {}
+): Tree<FileModel> {
+  const rootPath = path.resolve(root);
+  const entry = readEntry(rootPath, rootPath, options)!;
+
+  const tree = new Tree<FileModel>(null);
+  tree.root = loadEntry(entry, 0, rootPath, options, () => undefined);
+  return tree;
+}
+
+/**
+ * Watches the directories of a tree loaded by `fromDirectory`, applying the additions, removals and renames
+ * as tree mutations: `insertChild`, `remove` and `move`, and `updateModel` when a size or time changes.
+ * The changes of each round are applied in a batch, so that tree listeners receive them together.
+ * A rename or move is recognized by the inode of the entry when both paths are seen in the same round.
+ * @param {Tree<FileModel>} tree - The tree, whose root is the watched directory.
+ * @param {WatchOptions} [options] - The options used to load the tree, the delay and the error handler.
+ * @returns {DirectoryWatcher} - The watcher, to be closed when done.
+ */
+export function watchDirectory(
+  tree: Tree<FileModel>,
+  options: WatchOptions = {}
+): DirectoryWatcher {
+  const { delay = 50, maxDepth = Infinity } = options;
+  const inodes = new WeakMap<TreeNode<FileModel>, string>();
+  const watchers = new Map<TreeNode<FileModel>, fs.FSWatcher>();
+  const dirty = new Set<TreeNode<FileModel>>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const rootPath = tree.root ? tree.root.model.path : "";
+
+  const report = errorHandler(options);
+
+  // Applies the changes of a round, reporting the errors instead of throwing them from a timer
+  const flush = () => {
+    timer = null;
+    const directories = [...dirty];
+    dirty.clear();
+    try {
+      synchronize(directories);
+    } catch (error) {
+      report(error as Error);
+    }
+  };
+
+  // Watches the directories of a subtree that are read, recording the inode of each node
+  const track = (node: TreeNode<FileModel>, depth: number) => {
+    for (const current of node.preOrder()) {
+      if (!inodes.has(current)) {
+        const entry = readEntry(current.model.path, rootPath, {
+          followSymlinks: options.followSymlinks,
+        });
+        if (entry) inodes.set(current, entry.inode);
+      }
+
+      const currentDepth =
+        depth + current.ancestors().length - node.ancestors().length;
+      if (!current.model.isDirectory || currentDepth >= maxDepth) {
+        continue;
+      }
+
+      try {
+        const watcher = fs.watch(current.model.path, () => {
+          dirty.add(current);
+          timer = timer ?? setTimeout(flush, delay);
+        });
+        watcher.on("error", report);
+        watchers.set(current, watcher);
+      } catch (error) {
+        report(error as Error);
+      }
+    }
+  };
+
+  // Stops watching the directories of a removed subtree
+  const untrack = (node: TreeNode<FileModel>) => {
+    for (const current of node.preOrder()) {
+      watchers.get(current)?.close();
+      watchers.delete(current);
+      dirty.delete(current);
+    }
+  };
+
+  // Compares directories with their nodes and applies the differences
+  const synchronize = (directories: TreeNode<FileModel>[]): void =>
+    tree.batch(() => {
+      const removed = new Map<string, TreeNode<FileModel>>();
+      const added: [TreeNode<FileModel>, Entry][] = [];
+      // The directories that could not be read, with their path at the time
+      const unread: [TreeNode<FileModel>, string][] = [];
+
+      for (const directory of directories) {
+        // Directories removed in the meantime go away with their parent
+        if (directory.root() !== tree.root) {
+          continue;
+        }
+
+        let names: string[];
+        try {
+          names = fs.readdirSync(directory.model.path).sort();
+        } catch {
+          unread.push([directory, directory.model.path]);
+          continue;
+        }
+
+        update(directory, readEntry(directory.model.path, rootPath, options));
+        const existing = new Map(
+          directory.children.map((child) => [child.model.name, child])
+        );
+
+        for (const name of names) {
+          const entry = readEntry(
+            path.join(directory.model.path, name),
+            rootPath,
+            options
+          );
+          const child = existing.get(name);
+          if (entry && child && inodes.get(child) === entry.inode) {
+            existing.delete(name);
+            update(child, entry);
+          } else if (entry) {
+            added.push([directory, entry]);
+          }
+        }
+
+        existing.forEach((child) => {
+          // Hard links share an inode, so only the first one can be matched with a new path
+          const inode = inodes.get(child);
+          removed.set(
+            inode && !removed.has(inode) ? inode : child.model.path,
+            child
+          );
+        });
+      }
+
+      added.forEach(([directory, entry]) => {
+        const { name } = entry.model;
+        const moved = removed.get(entry.inode);
+
+        if (moved) {
+          removed.delete(entry.inode);
+          const position = directory.children.filter(
+            (child) => child !== moved && child.model.name < name
+          ).length;
+          tree.move(moved, directory, position);
+          rename(moved, entry.model.path);
+          update(moved, entry);
+          return;
+        }
+
+        const depth = directory.ancestors().length + 1;
+        const node = loadEntry(entry, depth, rootPath, options, (node, entry) =>
+          inodes.set(node, entry.inode)
+        );
+        directory.insertChild(node, (child) => child.model.name > name);
+        track(node, depth);
+      });
+
+      removed.forEach((node) => {
+        untrack(node);
+        tree.remove(node);
+      });
+
+      // Read again the directories renamed in this round, such as the subdirectories of a moved directory
+      const renamed = unread
+        .filter(
+          ([directory, oldPath]) =>
+            directory.root() === tree.root && directory.model.path !== oldPath
+        )
+        .map(([directory]) => directory);
+      if (renamed.length > 0) {
+        synchronize(renamed);
+      }
+    });
+
+  // Replaces the model of a node when its size or time changed
+  const update = (node: TreeNode<FileModel>, entry: Entry | null) => {
+    const { model } = node;
+    if (
+      entry &&
+      (model.size !== entry.model.size ||
+        model.mtime.getTime() !== entry.model.mtime.getTime())
+    ) {
+      tree.updateModel(node, {
+        ...model,
+        size: entry.model.size,
+        mtime: entry.model.mtime,
+      });
+    }
+  };
+
+  // Updates the name and the paths of a moved subtree
+  const rename = (node: TreeNode<FileModel>, newPath: string) => {
+    const oldPath = node.model.path;
+    for (const current of node.preOrder()) {
+      tree.updateModel(current, {
+        ...current.model,
+        name: current === node ? path.basename(newPath) : current.model.name,
+        path: newPath + current.model.path.slice(oldPath.length),
+      });
+    }
+  };
+
+  if (tree.root) {
+    track(tree.root, 0);
+  }
+
+  return {
+    refresh() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      dirty.clear();
+      synchronize([...watchers.keys()]);
+    },
+    close() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      watchers.forEach((watcher) => watcher.close());
+      watchers.clear();
+      dirty.clear();
+    },
+  };
+}
+
+/**
+ * Loads the subtree of an entry, attaching the children bottom-up so that each parent is still detached.
+ * @param {Entry} entry - The entry of the root of the subtree.
+ * @param {number} depth - The depth of the entry.
+ * @param {string} rootPath - The path of the root, for the filters.
+ * @param {DirectoryOptions} options - The filters, the handling of symbolic links, the maximum depth and the error handler.
+ * @param {(node: TreeNode<FileModel>, entry: Entry) => void} onNode - Called with each created node and its entry.
+ * @returns {TreeNode<FileModel>} - The root of the subtree.
+ */
+function loadEntry(
+  entry: Entry,
+  depth: number,
+  rootPath: string,
+  options: DirectoryOptions,
+  onNode: (node: TreeNode<FileModel>, entry: Entry) => void
+): TreeNode<FileModel> {
+  const { followSymlinks = false, maxDepth = Infinity } = options;
+  const report = errorHandler(options);
+  const root = new TreeNode<FileModel>(entry.model, 0);
+  const children = new Map<TreeNode<FileModel>, TreeNode<FileModel>[]>();
+  const order: TreeNode<FileModel>[] = [];
+
+  // Each frame holds a node, its entry, its depth and the real paths of the directories above it
+  const stack: [TreeNode<FileModel>, Entry, number, string[]][] = [
+    [root, entry, depth, []],
+  ];
+  while (stack.length > 0) {
+    const [node, current, currentDepth, ancestors] = stack.pop()!;
+    onNode(node, current);
+    order.push(node);
+
+    if (!current.model.isDirectory || currentDepth >= maxDepth) {
+      continue;
+    }
+
+    let realPath: string;
+    let names: string[];
+    try {
+      realPath = followSymlinks
+        ? fs.realpathSync(current.model.path)
+        : current.model.path;
+      names = fs.readdirSync(current.model.path).sort();
+    } catch (error) {
+      // Only the root must be readable, a directory removed in the meantime is not an error
+      if (current.model.path === rootPath) {
+        throw error;
+      }
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        report(error as Error);
+      }
+      continue;
+    }
+
+    // A followed link to one of its own ancestors would never end
+    if (ancestors.includes(realPath)) {
+      continue;
+    }
+
+    const list: TreeNode<FileModel>[] = [];
+    for (const name of names) {
+      let child: Entry | null = null;
+      try {
+        child = readEntry(
+          path.join(current.model.path, name),
+          rootPath,
+          options
+        );
+      } catch (error) {
+        report(error as Error);
+      }
+      if (child) {
+        const childNode = new TreeNode<FileModel>(child.model, 0);
+        list.push(childNode);
+        stack.push([
+          childNode,
+          child,
+          currentDepth + 1,
+          [...ancestors, realPath],
+        ]);
+      }
+    }
+    children.set(node, list);
+  }
+
+  // Every node comes after its parent, so the children are complete when attached
+  for (let i = order.length - 1; i >= 0; i--) {
+    children.get(order[i])?.forEach((child) => order[i].addChild(child));
+  }
+
+  return root;
+}
+
+/**
+ * Gets the handler of the errors, emitting them as process warnings without an `onError` option.
+ * @param {DirectoryOptions} options - The options holding the error handler.
+ * @returns {(error: Error) => void} - The error handler.
+ */
+function errorHandler(options: DirectoryOptions): (error: Error) => void {
+  return options.onError ?? ((error) => process.emitWarning(error));
+}
+
+/**
+ * Reads an entry of the filesystem and applies the filters.
+ * @param {string} filePath - The absolute path of the entry.
+ * @param {string} rootPath - The path of the root, which is never filtered.
+ * @param {DirectoryOptions} options - The filters and the handling of symbolic links.
+ * @returns {Entry | null} - The entry, or null if it is filtered out or no longer exists.
+ */
+function readEntry(
+  filePath: string,
+  rootPath: string,
+  options: DirectoryOptions
+): Entry | null {
+  const { include, exclude, followSymlinks = false } = options;
+
+  let stats: fs.Stats;
+  try {
+    stats = fs.lstatSync(filePath);
+    if (followSymlinks && stats.isSymbolicLink()) {
+      // A broken link is kept as a file
+      stats = fs.existsSync(filePath) ? fs.statSync(filePath) : stats;
+    }
+  } catch (error) {
+    if (
+      (error as NodeJS.ErrnoException).code === "ENOENT" &&
+      filePath !== rootPath
+    ) {
+      return null;
+    }
+    throw error;
+  }
+
+  const model: FileModel = {
+    name: path.basename(filePath),
+    path: filePath,
+    isDirectory: stats.isDirectory(),
+    size: stats.size,
+    mtime: stats.mtime,
+  };
+
+  if (filePath !== rootPath) {
+    const relative = path
+      .relative(rootPath, filePath)
+      .split(path.sep)
+      .join("/");
+    const matches = (filter: FileFilter) =>
+      filter instanceof RegExp ? filter.test(relative) : filter(model);
+
+    if (
+      (exclude && matches(exclude)) ||
+      (include && !model.isDirectory && !matches(include))
+    ) {
+      return null;
+    }
+  }
+
+  return { model, inode: `${stats.dev}:${stats.ino}` };
+}
@@ -0,0 +1,177 @@
+/**
+ * Thrown when two nodes of an indexed tree share the same key.
+ *
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class DuplicateKeyError extends Error {
+  /**
+   * The duplicated key.
+   * @type {any}
+   */
+  key: any;
+
+  /**
+   * Creates a new DuplicateKeyError.
+   * @param {any} key - The duplicated key.
+   */
+  constructor(key: any) {
+    super(`Duplicate node key: ${String(key)}`);
+    this.name = "DuplicateKeyError";
+    this.key = key;
+  }
+}
+
+/**
+ * Thrown when an operation refers to a node key that is not in the tree.
+ *
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class NodeNotFoundError extends Error {
+  /**
+   * The missing key.
+   * @type {any}
+   */
+  key: any;
+
+  /**
+   * Creates a new NodeNotFoundError.
+   * @param {any} key - The missing key.
+   */
+  constructor(key: any) {
+    super(`Node not found: ${String(key)}`);
+    this.name = "NodeNotFoundError";
+    this.key = key;
+  }
+}
+
+/**
+ * Thrown when a mutation or a parsed object would make a node its own ancestor.
+ *
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class CycleError extends Error {
+  /**
+   * Creates a new CycleError.
+   * @param {string} [message] - The error message.
+   */
+  constructor(message = "A node cannot become its own descendant") {
+    super(message);
+    this.name = "CycleError";
+  }
+}
+
+/**
+ * Thrown when a node that already has a parent is added under another node.
+ *
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class MultipleParentsError extends Error {
+  /**
+   * Creates a new MultipleParentsError.
+   * @param {string} [message] - The error message.
+   */
+  constructor(
+    message = "The node already has a parent: remove it or move it instead"
+  ) {
+    super(message);
+    this.name = "MultipleParentsError";
+  }
+}
+
+/**
+ * Thrown when flat rows do not describe a single tree.
+ *
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class FlatTreeError extends Error {
+  /**
+   * The rows found at the top level.
+   * @type {any[]}
+   */
+  roots: any[];
+
+  /**
+   * The rows not connected to the root: missing parents or parent cycles.
+   * @type {any[]}
+   */
+  orphans: any[];
+
+  /**
+   * Creates a new FlatTreeError.
+   * @param {any[]} roots - The rows found at the top level.
+   * @param {any[]} orphans - The rows not connected to the root.
+   */
+  constructor(roots: any[], orphans: any[]) {
+    super(
+      roots.length !== 1
+        ? `Expected a single root row, found ${roots.length}`
+        : `${orphans.length} row(s) not connected to the root`
+    );
+    this.name = "FlatTreeError";
+    this.roots = roots;
+    this.orphans = orphans;
+  }
+}
+
+/**
+ * Thrown when a query expression cannot be parsed.
+ *
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class QuerySyntaxError extends Error {
+  /**
+   * The query expression.
+   * @type {string}
+   */
+  expression: string;
+
+  /**
+   * The position of the error in the expression.
+   * @type {number}
+   */
+  position: number;
+
+  /**
+   * Creates a new QuerySyntaxError.
+   * @param {string} reason - The description of the error.
+   * @param {string} expression - The query expression.
+   * @param {number} position - The position of the error in the expression.
+   */
+  constructor(reason: string, expression: string, position: number) {
+    super(`${reason} at position ${position} in query "${expression}"`);
+    this.name = "QuerySyntaxError";
+    this.expression = expression;
+    this.position = position;
+  }
+}
+
+/**
+ * Thrown when a text representation of a tree cannot be parsed.
+ *
+ * @version 1.0.0
+ * @author Tommaso Frazzetto <tommaso.frazzetto@yahoo.com>
+ */
+export class TreeParseError extends Error {
+  /**
+   * The line of the error, counting from 1.
+   * @type {number}
+   */
+  line: number;
+
+  /**
+   * Creates a new TreeParseError.
+   * @param {string} reason - The description of the error.
+   * @param {number} line - The line of the error, counting from 1.
+   */
+  constructor(reason: string, line: number) {
+    super(`${reason} (line ${line})`);
+    this.name = "TreeParseError";
+    this.line = line;
+  }
+}
@@ -0,0 +1,253 @@
+import { defaultLabel } from "./text";
+import type { TreeNode } from "./TreeNode";
+
+/**
+ * Options for `toDot` and `toMermaid`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface GraphOptions<NodeModelType> {
+  /**
+   * The text of a node, escaped by the exporter. Defaults to the label of `toString`.
+   */
+  label?: (node: TreeNode<NodeModelType>) => string;
+
+  /**
+   * The attributes of a node. With DOT, they are Graphviz attributes such as `color`, `shape`
+   * or `style`. With Mermaid, `shape` picks the outline (`box`, `round`, `stadium`, `circle`
+   * or `diamond`) and the others are CSS properties such as `fill` or `stroke`.
+   */
+  attributes?: (
+    node: TreeNode<NodeModelType>
+  ) => Record<string, string | number> | undefined;
+
+  /**
+   * The nodes to highlight with the edges between consecutive ones, such as a path from `getPath`.
+   */
+  highlight?: TreeNode<NodeModelType>[];
+
+  /**
+   * The colour of the highlighted nodes and edges.
+   * @default "red"
+   */
+  highlightColor?: string;
+}
+
+/**
+ * Options for `toDot`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface DotOptions<NodeModelType> extends GraphOptions<NodeModelType> {
+  /**
+   * The name of the graph.
+   * @default "tree"
+   */
+  name?: string;
+
+  /**
+   * The attributes of the graph, such as `rankdir`.
+   */
+  graphAttributes?: Record<string, string | number>;
+}
+
+/**
+ * Options for `toMermaid`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface MermaidOptions<NodeModelType>
+  extends GraphOptions<NodeModelType> {
+  /**
+   * The direction of the graph.
+   * @default "TD"
+   */
+  direction?: "TD" | "TB" | "BT" | "LR" | "RL";
+}
+
+/**
+ * The brackets of the Mermaid node shapes.
+ */
+const mermaidShapes: Record<string, [string, string]> = {
+  box: ["[", "]"],
+  round: ["(", ")"],
+  stadium: ["([", "])"],
+  circle: ["((", "))"],
+  diamond: ["{", "}"],
+};
+
+/**
+ * Exports a subtree to the Graphviz DOT language, as a directed graph from parents to children.
+ * @param {TreeNode<T> | null} node - The root of the exported subtree, or null for an empty graph.
+ * @param {DotOptions<T>} [options] - The labels, attributes and highlighted path.
+ * @returns {string} - The DOT source.
+ */
+export function toDot<T>(
+  node: TreeNode<T> | null,
+  options: DotOptions<T> = {}
+): string {
+  const { name = "tree", graphAttributes = {} } = options;
+  const { ids, label, attributes, highlighted, highlightedEdge, color } =
+    prepare(node, options);
+
+  const lines = [`digraph ${quoteDot(name)} {`];
+  Object.entries(graphAttributes).forEach(([key, value]) =>
+    lines.push(`  ${key}=${quoteDot(value)};`)
+  );
+
+  ids.forEach((id, current) => {
+    const attrs: Record<string, string | number> = {
+      label: label(current),
+      ...attributes(current),
+    };
+    if (highlighted.has(current)) {
+      Object.assign(attrs, { color, penwidth: 2 });
+    }
+
+    const list = Object.entries(attrs)
+      .map(([key, value]) => `${key}=${quoteDot(value)}`)
+      .join(", ");
+    lines.push(`  ${id} [${list}];`);
+  });
+
+  ids.forEach((id, current) => {
+    if (current !== node && current.parent) {
+      const style = highlightedEdge(current)
+        ? ` [color=${quoteDot(color)}, penwidth=2]`
+        : "";
+      lines.push(`  ${ids.get(current.parent)} -> ${id}${style};`);
+    }
+  });
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Exports a subtree to a Mermaid flowchart, as a `graph TD` from parents to children.
+ * @param {TreeNode<T> | null} node - The root of the exported subtree, or null for an empty graph.
+ * @param {MermaidOptions<T>} [options] - The labels, attributes, highlighted path and direction.
+ * @returns {string} - The Mermaid source.
+ */
+export function toMermaid<T>(
+  node: TreeNode<T> | null,
+  options: MermaidOptions<T> = {}
+): string {
+  const { direction = "TD" } = options;
+  const { ids, label, attributes, highlighted, highlightedEdge, color } =
+    prepare(node, options);
+
+  const lines = [`graph ${direction}`];
+  const styles: string[] = [];
+
+  ids.forEach((id, current) => {
+    const { shape = "box", ...css } = attributes(current) ?? {};
+    const [open, close] = mermaidShapes[shape] ?? mermaidShapes.box;
+    lines.push(`  ${id}${open}"${escapeMermaid(label(current))}"${close}`);
+
+    if (highlighted.has(current)) {
+      Object.assign(css, { stroke: color, "stroke-width": "3px" });
+    }
+    if (Object.keys(css).length > 0) {
+      styles.push(`  style ${id} ${mermaidStyle(css)}`);
+    }
+  });
+
+  // Mermaid numbers the links in the order they are declared
+  let link = 0;
+  ids.forEach((id, current) => {
+    if (current !== node && current.parent) {
+      lines.push(`  ${ids.get(current.parent)} --> ${id}`);
+      if (highlightedEdge(current)) {
+        styles.push(
+          `  linkStyle ${link} ${mermaidStyle({
+            stroke: color,
+            "stroke-width": "3px",
+          })}`
+        );
+      }
+      link++;
+    }
+  });
+
+  return [...lines, ...styles].join("\n");
+}
+
+/**
+ * Resolves the options shared by both exporters.
+ * @param {TreeNode<T> | null} node - The root of the exported subtree.
+ * @param {GraphOptions<T>} options - The options.
+ * @returns {object} - The id of each node in pre-order, the label and attribute callbacks,
+ * the highlighted nodes, a check for the highlighted edge above a node, and the highlight colour.
+ */
+function prepare<T>(node: TreeNode<T> | null, options: GraphOptions<T>) {
+  const {
+    label = defaultLabel,
+    attributes = () => undefined,
+    highlight = [],
+    highlightColor = "red",
+  } = options;
+
+  const ids = new Map<TreeNode<T>, string>();
+  if (node) {
+    for (const current of node.preOrder()) {
+      ids.set(current, `n${ids.size}`);
+    }
+  }
+
+  const highlighted = new Set(highlight);
+  // The edges between consecutive highlighted nodes, keyed by their lower end
+  const lowerEnds = new Set<TreeNode<T>>();
+  for (let i = 1; i < highlight.length; i++) {
+    const [a, b] = [highlight[i - 1], highlight[i]];
+    if (b.parent === a) lowerEnds.add(b);
+    else if (a.parent === b) lowerEnds.add(a);
+  }
+
+  return {
+    ids,
+    label,
+    attributes,
+    highlighted,
+    highlightedEdge: (child: TreeNode<T>) => lowerEnds.has(child),
+    color: highlightColor,
+  };
+}
+
+/**
+ * Quotes a DOT identifier or attribute value.
+ * @param {string | number} value - The value.
+ * @returns {string} - The value between double quotes, with quotes, backslashes and newlines escaped.
+ */
+function quoteDot(value: string | number): string {
+  const escaped = String(value)
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\r?\n/g, "\\n");
+  return `"${escaped}"`;
+}
+
+/**
+ * Escapes a Mermaid label with entity codes, so that it cannot close its quotes or inject markup.
+ * @param {string} text - The label.
+ * @returns {string} - The escaped label, on a single line.
+ */
+function escapeMermaid(text: string): string {
+  return text
+    .replace(/#/g, "#35;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;")
+    .replace(/\r?\n/g, " ");
+}
+
+/**
+ * Formats CSS properties for a Mermaid `style` or `linkStyle` statement.
+ * @param {Record<string, string | number>} css - The properties.
+ * @returns {string} - The declarations, separated by commas.
+ */
+function mermaidStyle(css: Record<string, string | number>): string {
+  return Object.entries(css)
+    .map(([key, value]) => `${key}:${String(value).replace(/[,;\r\n]/g, " ")}`)
+    .join(",");
+}
@@ -0,0 +1,351 @@
+import { TreeParseError } from "./errors";
+import { defaultLabel } from "./text";
+import type { TreeNode } from "./TreeNode";
+
+/**
+ * Options for `parseOutline`, `parseMarkdownHeadings`, `Tree.fromOutline` and `Tree.fromMarkdownHeadings`.
+ */
+export interface OutlineParseOptions {
+  /**
+   * Creates the model of a node from its label and its depth, the first item or heading being at depth 0.
+   * @default (label) => ({ name: label })
+   */
+  parseLabel?: (label: string, depth: number) => any;
+
+  /**
+   * The model of a root added above the top-level items, so that an outline can have several of them.
+   * Without it, there must be a single top-level item.
+   */
+  root?: any;
+}
+
+/**
+ * Options for `parseOutline` and `Tree.fromOutline`.
+ */
+export interface IndentedOutlineOptions extends OutlineParseOptions {
+  /**
+   * The indentation of a level, as a string such as `"\t"` or a number of spaces.
+   * Defaults to the indentation of the first indented line.
+   */
+  indent?: string | number;
+}
+
+/**
+ * Options for `renderOutline`, `renderMarkdownList`, `Tree.toOutline` and `Tree.toMarkdownList`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface OutlineWriteOptions<NodeModelType> {
+  /**
+   * The text of a node. Defaults to the label of `toString`.
+   */
+  label?: (node: TreeNode<NodeModelType>) => string;
+
+  /**
+   * The indentation of a level.
+   * @default "  "
+   */
+  indent?: string;
+
+  /**
+   * Writes the children of the root at the top level, the inverse of the `root` parse option.
+   * @default false
+   */
+  omitRoot?: boolean;
+}
+
+/**
+ * Options for `renderMarkdownList` and `Tree.toMarkdownList`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface MarkdownListOptions<NodeModelType>
+  extends OutlineWriteOptions<NodeModelType> {
+  /**
+   * The list marker.
+   * @default "-"
+   */
+  bullet?: "-" | "*" | "+";
+
+  /**
+   * The link of a node, written as `[label](link)` unless undefined.
+   */
+  link?: (node: TreeNode<NodeModelType>) => string | undefined;
+}
+
+/**
+ * An item of an outline: its label, depth and line.
+ */
+interface OutlineItem {
+  label: string;
+  depth: number;
+  line: number;
+}
+
+/**
+ * Matches the list marker at the beginning of an item.
+ */
+const bulletPattern = /^[-*+][ \t]+/;
+
+/**
+ * Matches an ATX heading, with its level and text.
+ */
+const headingPattern = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+
+/**
+ * Matches the fence opening or closing a code block.
+ */
+const fencePattern = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Parses an indented outline, such as a tab-indented or YAML-like list, into a plain object accepted by `Tree.parse`.
+ * Blank lines are ignored and the list markers `-`, `*` and `+` are removed from the labels.
+ *
+ * ```text
+ * Guide
+ *   - Install
+ *   - Usage
+ *     - Options
+ * ```
+ *
+ * @param {string} text - The outline.
+ * @param {IndentedOutlineOptions} [options] - The indentation, how to create the models and the added root.
+ * @returns {any} - The plain object representing the tree, or null if the text is blank and there is no added root.
+ * @throws {TreeParseError} - If a line is not indented by whole levels, is indented deeper than its parent's children,
+ * or there are several top-level items without an added root.
+ */
+export function parseOutline(
+  text: string,
+  options: IndentedOutlineOptions = {}
+): any {
+  let unit =
+    typeof options.indent === "number"
+      ? " ".repeat(options.indent)
+      : options.indent;
+  if (unit === "") {
+    throw new RangeError("The indentation cannot be empty");
+  }
+
+  const items: OutlineItem[] = [];
+  text.split(/\r?\n/).forEach((content, position) => {
+    const line = position + 1;
+    if (content.trim() === "") {
+      return;
+    }
+
+    const whitespace = /^[ \t]*/.exec(content)![0];
+    if (whitespace && !unit) {
+      unit = whitespace;
+    }
+
+    const depth = unit ? whitespace.length / unit.length : 0;
+    if (!Number.isInteger(depth) || whitespace !== (unit ?? "").repeat(depth)) {
+      throw new TreeParseError(
+        "The indentation is not a whole number of levels",
+        line
+      );
+    }
+
+    const label = content.slice(whitespace.length).trimEnd();
+    items.push({ label: label.replace(bulletPattern, ""), depth, line });
+  });
+
+  return buildOutline(items, options, "item");
+}
+
+/**
+ * Parses the ATX headings of a Markdown document (`#` to `######`) into a plain object accepted by `Tree.parse`,
+ * each heading being the parent of the deeper headings following it. Headings in fenced code blocks are ignored.
+ * @param {string} markdown - The document.
+ * @param {OutlineParseOptions} [options] - How to create the models and the added root.
+ * @returns {any} - The plain object representing the tree, or null if there are no headings and no added root.
+ * @throws {TreeParseError} - If a heading skips a level below its parent, is above the level of the first heading,
+ * or there are several top-level headings without an added root.
+ */
+export function parseMarkdownHeadings(
+  markdown: string,
+  options: OutlineParseOptions = {}
+): any {
+  const items: OutlineItem[] = [];
+  let fence: string | null = null;
+  let topLevel = 0;
+
+  markdown.split(/\r?\n/).forEach((content, position) => {
+    const line = position + 1;
+
+    // A fence is closed by one of the same character at least as long
+    const fenceMatch = fencePattern.exec(content);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+
+    const heading = fence === null ? headingPattern.exec(content) : null;
+    if (!heading) {
+      return;
+    }
+
+    const level = heading[1].length;
+    topLevel = topLevel || level;
+    if (level < topLevel) {
+      throw new TreeParseError(
+        `The heading is above the level of the first heading (h${topLevel})`,
+        line
+      );
+    }
+
+    items.push({ label: heading[2] ?? "", depth: level - topLevel, line });
+  });
+
+  return buildOutline(items, options, "heading");
+}
+
+/**
+ * Renders a subtree as an indented outline, in a format read back by `parseOutline`.
+ * @param {TreeNode<T>} node - The root of the rendered subtree.
+ * @param {OutlineWriteOptions<T>} [options] - The label, indentation and whether to omit the root.
+ * @returns {string} - The outline, one line per node.
+ */
+export function renderOutline<T>(
+  node: TreeNode<T>,
+  options: OutlineWriteOptions<T> = {}
+): string {
+  const { label = defaultLabel } = options;
+  return outlineLines(node, options, (current) => label(current)).join("\n");
+}
+
+/**
+ * Renders a subtree as a nested Markdown list, with optional links such as a table of contents.
+ * @param {TreeNode<T>} node - The root of the rendered subtree.
+ * @param {MarkdownListOptions<T>} [options] - The label, link, marker, indentation and whether to omit the root.
+ * @returns {string} - The list, one line per node.
+ */
+export function renderMarkdownList<T>(
+  node: TreeNode<T>,
+  options: MarkdownListOptions<T> = {}
+): string {
+  const {
+    label = defaultLabel,
+    bullet = "-",
+    link = () => undefined,
+  } = options;
+
+  return outlineLines(node, options, (current) => {
+    const text = label(current);
+    const href = link(current);
+    return href === undefined
+      ? `${bullet} ${text}`
+      : `${bullet} [${escapeLinkText(text)}](${escapeLinkTarget(href)})`;
+  }).join("\n");
+}
+
+/**
+ * Builds the plain object of an outline from its items.
+ * @param {OutlineItem[]} items - The items, in document order.
+ * @param {OutlineParseOptions} options - How to create the models and the added root.
+ * @param {"item" | "heading"} kind - What the items are, for the error messages.
+ * @returns {any} - The plain object representing the tree, or null if there are no items and no added root.
+ * @throws {TreeParseError} - If an item is deeper than its parent's children or there are several top-level items.
+ */
+function buildOutline(
+  items: OutlineItem[],
+  options: OutlineParseOptions,
+  kind: "item" | "heading"
+): any {
+  const { parseLabel = (label: string) => ({ name: label }) } = options;
+  const root =
+    options.root !== undefined ? { model: options.root, children: [] } : null;
+  // The last object seen at each depth, below the added root
+  const path: any[] = root ? [root] : [];
+  const offset = path.length;
+  let first: any = root;
+
+  items.forEach(({ label, depth, line }) => {
+    const object = {
+      model: parseLabel(label, depth),
+      children: [] as any[],
+    };
+
+    if (depth + offset > path.length) {
+      throw new TreeParseError(
+        kind === "heading"
+          ? "The heading skips a level"
+          : first
+          ? "Unexpected indentation"
+          : "The first item must be at the top",
+        line
+      );
+    }
+
+    if (depth + offset === 0) {
+      if (first) {
+        throw new TreeParseError(`Only one top-level ${kind} is allowed`, line);
+      }
+      first = object;
+    } else {
+      path[depth + offset - 1].children.push(object);
+    }
+
+    path.length = depth + offset;
+    path.push(object);
+  });
+
+  return first;
+}
+
+/**
+ * Writes the indented lines of a subtree in pre-order.
+ * @param {TreeNode<T>} node - The root of the subtree.
+ * @param {OutlineWriteOptions<T>} options - The indentation and whether to omit the root.
+ * @param {(node: TreeNode<T>) => string} format - The text of a node, after its indentation.
+ * @returns {string[]} - The lines.
+ */
+function outlineLines<T>(
+  node: TreeNode<T>,
+  options: OutlineWriteOptions<T>,
+  format: (node: TreeNode<T>) => string
+): string[] {
+  const { indent = "  ", omitRoot = false } = options;
+  const lines: string[] = [];
+
+  const stack: [TreeNode<T>, number][] = omitRoot
+    ? node.children.map((child): [TreeNode<T>, number] => [child, 0]).reverse()
+    : [[node, 0]];
+  while (stack.length > 0) {
+    const [current, depth] = stack.pop()!;
+    // Labels are kept on a single line so that the outline can be parsed back
+    lines.push(indent.repeat(depth) + format(current).replace(/\r?\n/g, " "));
+
+    for (let i = current.children.length - 1; i >= 0; i--) {
+      stack.push([current.children[i], depth + 1]);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Escapes the text of a Markdown link.
+ * @param {string} text - The text.
+ * @returns {string} - The text with its brackets and backslashes escaped.
+ */
+function escapeLinkText(text: string): string {
+  return text.replace(/[[\]\\]/g, "\\$&");
+}
+
+/**
+ * Escapes the target of a Markdown link.
+ * @param {string} href - The target.
+ * @returns {string} - The target with its spaces and parentheses percent-encoded.
+ */
+function escapeLinkTarget(href: string): string {
+  return href.replace(
+    /[ ()]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
@@ -0,0 +1,401 @@
+import { QuerySyntaxError } from "./errors";
+import type { TreeNode } from "./TreeNode";
+
+/**
+ * Options for `query` and `compileQuery`.
+ */
+export interface QueryOptions {
+  /**
+   * The model property matched by the name tests of a query, such as `root` in `/root/*`.
+   * Nodes with a primitive model are matched by the model itself.
+   * @default "name"
+   */
+  nameKey?: string;
+}
+
+/**
+ * A comparison operator of an attribute filter.
+ */
+type Operator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "^=" | "$=" | "*=";
+
+/**
+ * A filter between brackets: a position, an attribute existence test or an attribute comparison.
+ */
+type Filter =
+  | { type: "position"; position: number | "last" }
+  | { type: "exists"; field: string[] }
+  | { type: "compare"; field: string[]; operator: Operator; value: any };
+
+/**
+ * A step of a query: the axis leading to the candidates, the name test and the filters.
+ */
+interface Step {
+  axis: "child" | "descendant";
+  name: string | null;
+  filters: Filter[];
+}
+
+/**
+ * Compiles a query expression into a function returning the matches from a node.
+ *
+ * Syntax:
+ * - `/` selects the children of the previous step, `//` all its descendants.
+ *   A leading `/` starts from the root, so `/root` matches a root named `root`;
+ *   otherwise the query starts from the children of the node it runs on.
+ * - `name` matches the nodes whose model `name` is `name`, `*` or an empty name any node.
+ * - `[field=value]` compares a model field, dotted for nested fields, with `=`, `!=`, `<`, `<=`,
+ *   `>`, `>=`, `^=` (starts with), `$=` (ends with) or `*=` (contains). Values are numbers,
+ *   `true`, `false`, `null`, quoted strings or bare strings.
+ * - `[field]` keeps the nodes having the field.
+ * - `[2]` keeps the second candidate of each context node, counting from 1, and `[last]` the last one.
+ *
+ * @param {string} expression - The query expression, such as `/root//[type=folder]/[size>100]`.
+ * @param {QueryOptions} [options] - The query options.
+ * @returns {(node: TreeNode<T>) => TreeNode<T>[]} - A function returning the matches in pre-order.
+ * @throws {QuerySyntaxError} - If the expression is invalid.
+ */
+export function compileQuery<T>(
+  expression: string,
+  options: QueryOptions = {}
+): (node: TreeNode<T>) => TreeNode<T>[] {
+  const { nameKey = "name" } = options;
+  const absolute = expression.trim().startsWith("/");
+  const steps = parseSteps(expression);
+
+  const nameOf = (node: TreeNode<T>): any => {
+    const model = node.model as any;
+    return model !== null && typeof model === "object" ? model[nameKey] : model;
+  };
+
+  return (node) => {
+    const start = absolute ? node.root() : node;
+    // Null stands for the document above the root, whose only child is the root
+    let contexts: (TreeNode<T> | null)[] = [absolute ? null : start];
+
+    for (const step of steps) {
+      const matches = new Set<TreeNode<T>>();
+
+      contexts.forEach((context) => {
+        let candidates = candidatesOf(context, start, step.axis);
+        if (step.name !== null) {
+          candidates = candidates.filter(
+            (candidate) => String(nameOf(candidate)) === step.name
+          );
+        }
+
+        step.filters.forEach((filter) => {
+          candidates = applyFilter(candidates, filter);
+        });
+
+        candidates.forEach((candidate) => matches.add(candidate));
+      });
+
+      contexts = [...matches];
+    }
+
+    const matches = new Set(contexts as TreeNode<T>[]);
+    if (matches.size <= 1) {
+      return [...matches];
+    }
+
+    // Steps from several contexts can interleave, so restore the document order
+    return [...start.preOrder()].filter((candidate) => matches.has(candidate));
+  };
+}
+
+/**
+ * Finds the nodes matching a query expression; see `compileQuery` for the syntax.
+ * @param {TreeNode<T>} node - The node the query runs on.
+ * @param {string} expression - The query expression.
+ * @param {QueryOptions} [options] - The query options.
+ * @returns {TreeNode<T>[]} - The matches in pre-order.
+ * @throws {QuerySyntaxError} - If the expression is invalid.
+ */
+export function query<T>(
+  node: TreeNode<T>,
+  expression: string,
+  options?: QueryOptions
+): TreeNode<T>[] {
+  return compileQuery<T>(expression, options)(node);
+}
+
+/**
+ * Gets the candidates of a step from a context node.
+ * @param {TreeNode<T> | null} context - The context node, or null for the document above the root.
+ * @param {TreeNode<T>} root - The root, used when the context is the document.
+ * @param {Step["axis"]} axis - The axis of the step.
+ * @returns {TreeNode<T>[]} - The candidates in pre-order.
+ */
+function candidatesOf<T>(
+  context: TreeNode<T> | null,
+  root: TreeNode<T>,
+  axis: Step["axis"]
+): TreeNode<T>[] {
+  if (axis === "child") {
+    return context ? [...context.children] : [root];
+  }
+
+  const descendants = [...(context ?? root).preOrder()];
+  return context ? descendants.slice(1) : descendants;
+}
+
+/**
+ * Keeps the candidates passing a filter.
+ * @param {TreeNode<T>[]} candidates - The candidates of a context node.
+ * @param {Filter} filter - The filter.
+ * @returns {TreeNode<T>[]} - The remaining candidates.
+ */
+function applyFilter<T>(
+  candidates: TreeNode<T>[],
+  filter: Filter
+): TreeNode<T>[] {
+  switch (filter.type) {
+    case "position": {
+      const index =
+        filter.position === "last"
+          ? candidates.length - 1
+          : filter.position - 1;
+      return index >= 0 && index < candidates.length ? [candidates[index]] : [];
+    }
+    case "exists":
+      return candidates.filter(
+        (candidate) => fieldOf(candidate.model, filter.field) !== undefined
+      );
+    case "compare":
+      return candidates.filter((candidate) =>
+        compare(
+          fieldOf(candidate.model, filter.field),
+          filter.operator,
+          filter.value
+        )
+      );
+  }
+}
+
+/**
+ * Reads a possibly nested field of a model.
+ * @param {any} model - The model.
+ * @param {string[]} field - The segments of the field.
+ * @returns {any} - The value of the field, or undefined if it is missing.
+ */
+function fieldOf(model: any, field: string[]): any {
+  return field.reduce(
+    (value, segment) =>
+      value !== null && typeof value === "object" ? value[segment] : undefined,
+    model
+  );
+}
+
+/**
+ * Compares a field value with the value of a filter.
+ * Numbers are compared numerically when the filter value is a number, other values as strings.
+ * @param {any} actual - The field value.
+ * @param {Operator} operator - The operator.
+ * @param {any} expected - The value of the filter.
+ * @returns {boolean} - Whether the comparison holds.
+ */
+function compare(actual: any, operator: Operator, expected: any): boolean {
+  if (operator === "=" || operator === "!=") {
+    const equal =
+      actual === expected ||
+      (actual !== undefined &&
+        actual !== null &&
+        expected !== null &&
+        String(actual) === String(expected));
+    return operator === "=" ? equal : !equal;
+  }
+
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+
+  switch (operator) {
+    case "^=":
+      return String(actual).startsWith(String(expected));
+    case "$=":
+      return String(actual).endsWith(String(expected));
+    case "*=":
+      return String(actual).includes(String(expected));
+  }
+
+  const [a, b] =
+    typeof expected === "number"
+      ? [Number(actual), expected]
+      : [String(actual), String(expected)];
+  if (typeof a === "number" && isNaN(a)) {
+    return false;
+  }
+
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+/**
+ * Parses a query expression into steps.
+ * @param {string} expression - The query expression.
+ * @returns {Step[]} - The steps.
+ * @throws {QuerySyntaxError} - If the expression is invalid.
+ */
+function parseSteps(expression: string): Step[] {
+  const steps: Step[] = [];
+  let position = 0;
+
+  const skipSpaces = () => {
+    while (/\s/.test(expression.charAt(position))) position++;
+  };
+
+  skipSpaces();
+  if (position === expression.length) {
+    throw new QuerySyntaxError("Empty query", expression, position);
+  }
+
+  while (position < expression.length) {
+    let axis: Step["axis"] = "child";
+    if (expression.startsWith("//", position)) {
+      axis = "descendant";
+      position += 2;
+    } else if (expression.charAt(position) === "/") {
+      position += 1;
+    } else if (steps.length > 0) {
+      throw new QuerySyntaxError("Expected '/'", expression, position);
+    }
+
+    // The name test runs up to the next separator or filter
+    const nameStart = position;
+    while (
+      position < expression.length &&
+      !"/[]".includes(expression.charAt(position))
+    ) {
+      position++;
+    }
+    const name = expression.slice(nameStart, position).trim();
+
+    const filters: Filter[] = [];
+    while (expression.charAt(position) === "[") {
+      const end = closingBracket(expression, position);
+      filters.push(
+        parseFilter(expression.slice(position + 1, end), expression, position)
+      );
+      position = end + 1;
+      skipSpaces();
+    }
+
+    if (name === "" && filters.length === 0) {
+      throw new QuerySyntaxError("Expected a step", expression, position);
+    }
+
+    steps.push({
+      axis,
+      name: name === "" || name === "*" ? null : name,
+      filters,
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Finds the bracket closing a filter, skipping quoted strings.
+ * @param {string} expression - The query expression.
+ * @param {number} start - The position of the opening bracket.
+ * @returns {number} - The position of the closing bracket.
+ * @throws {QuerySyntaxError} - If the filter is not closed.
+ */
+function closingBracket(expression: string, start: number): number {
+  let quote: string | null = null;
+
+  for (let i = start + 1; i < expression.length; i++) {
+    const char = expression.charAt(i);
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "]") {
+      return i;
+    }
+  }
+
+  throw new QuerySyntaxError("Unclosed '['", expression, start);
+}
+
+/**
+ * Parses the content of a filter.
+ * @param {string} content - The text between the brackets.
+ * @param {string} expression - The query expression.
+ * @param {number} position - The position of the opening bracket.
+ * @returns {Filter} - The filter.
+ * @throws {QuerySyntaxError} - If the filter is invalid.
+ */
+function parseFilter(
+  content: string,
+  expression: string,
+  position: number
+): Filter {
+  const text = content.trim();
+
+  if (/^\d+$/.test(text)) {
+    const index = Number(text);
+    if (index < 1) {
+      throw new QuerySyntaxError(
+        "Positions start from 1",
+        expression,
+        position
+      );
+    }
+    return { type: "position", position: index };
+  }
+
+  if (text === "last") {
+    return { type: "position", position: "last" };
+  }
+
+  const comparison = /^([\w.-]+)\s*(!=|<=|>=|\^=|\$=|\*=|=|<|>)\s*(.+)$/.exec(
+    text
+  );
+  if (comparison) {
+    const [, field, operator, value] = comparison;
+    return {
+      type: "compare",
+      field: field.split("."),
+      operator: operator as Operator,
+      value: parseValue(value.trim()),
+    };
+  }
+
+  if (/^[\w.-]+$/.test(text)) {
+    return { type: "exists", field: text.split(".") };
+  }
+
+  throw new QuerySyntaxError(
+    `Invalid filter '[${content}]'`,
+    expression,
+    position
+  );
+}
+
+/**
+ * Parses the value of a comparison.
+ * @param {string} text - The value as written in the query.
+ * @returns {any} - A string, number, boolean or null.
+ */
+function parseValue(text: string): any {
+  const quoted = /^(["'])(.*)\1$/.exec(text);
+  if (quoted) {
+    return quoted[2];
+  }
+
+  if (text === "true") return true;
+  if (text === "false") return false;
+  if (text === "null") return null;
+  if (text !== "" && !isNaN(Number(text))) return Number(text);
+
+  return text;
+}
@@ -0,0 +1,180 @@
+import { TreeParseError } from "./errors";
+import type { TreeNode } from "./TreeNode";
+
+/**
+ * Options for `renderTree`, `Tree.toString` and `TreeNode.toString`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface RenderOptions<NodeModelType> {
+  /**
+   * The text of a node. Defaults to the model itself for primitive models,
+   * then to the `name` of the model, its id, or its JSON.
+   */
+  label?: (node: TreeNode<NodeModelType>) => string;
+
+  /**
+   * The depth below which the children of a node are replaced by `…`, relative to the rendered node.
+   * @default Infinity
+   */
+  maxDepth?: number;
+
+  /**
+   * The characters drawing the branches: `├──` and `└──`, or `|--` and `` `-- ``.
+   * @default "unicode"
+   */
+  charset?: "unicode" | "ascii";
+}
+
+/**
+ * Options for `parseTreeText` and `Tree.fromText`.
+ */
+export interface TextParseOptions {
+  /**
+   * Creates the model of a node from its label.
+   * @default (label) => ({ name: label })
+   */
+  parseLabel?: (label: string) => any;
+}
+
+/**
+ * The symbol of the Node.js `util.inspect` hook, shared through the global symbol registry
+ * so that no Node.js module has to be imported.
+ */
+export const inspectSymbol = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * The characters drawing the branches of each charset.
+ */
+const charsets = {
+  unicode: { branch: "├── ", last: "└── ", pipe: "│   ", space: "    " },
+  ascii: { branch: "|-- ", last: "`-- ", pipe: "|   ", space: "    " },
+};
+
+/**
+ * Matches the lines below the root: the indentation, the branch and the label.
+ */
+const linePattern = /^((?:[│|] {3}| {4})*)(?:├── |└── |\|-- |`-- )(.*)$/;
+
+/**
+ * Renders a subtree like the `tree` command:
+ *
+ * ```text
+ * root
+ * ├── docs
+ * │   └── guide
+ * └── blog
+ * ```
+ *
+ * @param {TreeNode<T>} node - The root of the rendered subtree.
+ * @param {RenderOptions<T>} [options] - The label, maximum depth and charset.
+ * @returns {string} - The rendering, one line per node.
+ */
+export function renderTree<T>(
+  node: TreeNode<T>,
+  options: RenderOptions<T> = {}
+): string {
+  const {
+    label = defaultLabel,
+    maxDepth = Infinity,
+    charset = "unicode",
+  } = options;
+  const chars = charsets[charset];
+  const lines: string[] = [];
+
+  // Each frame holds a node, the beginning of its line, the indentation of its children and its depth
+  const stack: [TreeNode<T>, string, string, number][] = [[node, "", "", 0]];
+  while (stack.length > 0) {
+    const [current, head, indent, depth] = stack.pop()!;
+    // Labels are kept on a single line so that the rendering can be parsed back
+    lines.push(head + label(current).replace(/\r?\n/g, " "));
+
+    if (current.children.length > 0 && depth >= maxDepth) {
+      lines.push(indent + chars.last + "…");
+      continue;
+    }
+
+    // Push the children in reverse to visit them in order
+    for (let i = current.children.length - 1; i >= 0; i--) {
+      const last = i === current.children.length - 1;
+      stack.push([
+        current.children[i],
+        indent + (last ? chars.last : chars.branch),
+        indent + (last ? chars.space : chars.pipe),
+        depth + 1,
+      ]);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Parses the rendering of `renderTree`, in either charset, into a plain object accepted by `Tree.parse`.
+ * Blank lines are ignored.
+ * @param {string} text - The rendering.
+ * @param {TextParseOptions} [options] - How to create the models.
+ * @returns {any} - The plain object representing the tree, or null if the text is blank.
+ * @throws {TreeParseError} - If a line is indented deeper than its parent's children or there are several roots.
+ */
+export function parseTreeText(
+  text: string,
+  options: TextParseOptions = {}
+): any {
+  const { parseLabel = (label: string) => ({ name: label }) } = options;
+  let root: any = null;
+  // The last object seen at each depth
+  const path: any[] = [];
+
+  text.split(/\r?\n/).forEach((line, position) => {
+    const lineNumber = position + 1;
+    if (line.trim() === "") {
+      return;
+    }
+
+    const match = linePattern.exec(line);
+    const depth = match ? match[1].length / 4 + 1 : 0;
+    const object = {
+      model: parseLabel(match ? match[2] : line.trimEnd()),
+      children: [] as any[],
+    };
+
+    if (depth === 0) {
+      if (root) {
+        throw new TreeParseError("Only one root is allowed", lineNumber);
+      }
+      root = object;
+    } else if (depth > path.length) {
+      throw new TreeParseError(
+        root ? "Unexpected indentation" : "The first line must be the root",
+        lineNumber
+      );
+    } else {
+      path[depth - 1].children.push(object);
+    }
+
+    path.length = depth;
+    path.push(object);
+  });
+
+  return root;
+}
+
+/**
+ * Gets the default label of a node, also used by the graph exports.
+ * @param {TreeNode<T>} node - The node.
+ * @returns {string} - The primitive model, or the `name` of the model, its id or its JSON.
+ */
+export function defaultLabel<T>(node: TreeNode<T>): string {
+  const model = node.model as any;
+
+  if (model === null || typeof model !== "object") {
+    return String(model);
+  }
+
+  if (model.name !== undefined) {
+    return String(model.name);
+  }
+
+  return node.id !== undefined ? String(node.id) : JSON.stringify(model);
+}
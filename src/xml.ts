@@ -0,0 +1,659 @@
+import { TreeParseError } from "./errors";
+import type { TreeNode } from "./TreeNode";
+
+/**
+ * The model of a node read from XML or the DOM: an element, or a text node with the tag `#text`.
+ */
+export interface XmlElement {
+  /**
+   * The name of the element, or `#text` for a text node.
+   */
+  tag: string;
+
+  /**
+   * The attributes of the element, in document order.
+   */
+  attributes: Record<string, string>;
+
+  /**
+   * The text of a text node, or the text directly inside an element when text nodes are not kept.
+   */
+  text?: string;
+}
+
+/**
+ * An event read from an XML document by `readXml`.
+ */
+export type XmlEvent =
+  | {
+      type: "open";
+      tag: string;
+      attributes: Record<string, string>;
+      line: number;
+    }
+  | { type: "close"; tag: string; line: number }
+  | { type: "text"; text: string; line: number };
+
+/**
+ * Options for `parseXml`, `parseDom`, `Tree.fromXml` and `Tree.fromDom`.
+ */
+export interface XmlParseOptions {
+  /**
+   * Keeps the text as `#text` child nodes in document order, instead of the `text` of the elements.
+   * Needed for mixed content such as `<p>a <b>b</b> c</p>`.
+   * @default false
+   */
+  textNodes?: boolean;
+
+  /**
+   * Trims the text and ignores the whitespace between elements.
+   * @default true
+   */
+  trim?: boolean;
+}
+
+/**
+ * Options for `writeXml`, `toXml` and `Tree.toXml`.
+ *
+ * @template NodeModelType - The type of the node's model.
+ */
+export interface XmlWriteOptions<NodeModelType> {
+  /**
+   * The element of a node. Defaults to the model, which must be an `XmlElement`.
+   */
+  toElement?: (node: TreeNode<NodeModelType>) => XmlElement;
+
+  /**
+   * The indentation of each level, or an empty string to write the document on a single line.
+   * @default "  "
+   */
+  indent?: string;
+
+  /**
+   * Starts the document with `<?xml version="1.0" encoding="UTF-8"?>`.
+   * @default false
+   */
+  declaration?: boolean;
+}
+
+/**
+ * The parts of a DOM node read by `parseDom`, such as a browser `Element` or one of a DOM implementation.
+ */
+export interface DomLikeNode {
+  nodeType: number;
+  nodeName: string;
+  nodeValue?: string | null;
+  attributes?: ArrayLike<{ name: string; value: string }>;
+  childNodes: ArrayLike<DomLikeNode>;
+}
+
+/**
+ * The parts of a DOM document used by `toDom` to create the nodes.
+ */
+export interface DomLikeDocument<NodeType> {
+  createElement(tag: string): NodeType & {
+    setAttribute(name: string, value: string): void;
+    appendChild(child: NodeType): unknown;
+  };
+  createTextNode(text: string): NodeType;
+}
+
+/**
+ * The tag of the text nodes.
+ */
+export const textTag = "#text";
+
+/**
+ * The DOM node types read by `parseDom`.
+ */
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+
+/**
+ * The predefined XML entities.
+ */
+const entities: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Matches an XML name.
+ */
+const namePattern = /^[A-Za-z_:][\w.:-]*/;
+
+/**
+ * Matches an attribute at the current position, with its value between double or single quotes.
+ */
+const attributePattern =
+  /\s+([A-Za-z_:][\w.:-]*)\s*=\s*(?:"([^"<]*)"|'([^'<]*)')/y;
+
+/**
+ * Reads the events of an XML document one at a time, so that large documents can be processed
+ * without holding all their nodes. The document may be split in chunks at any position, such as
+ * the chunks of a file read in parts. Comments, processing instructions and the doctype are skipped,
+ * CDATA sections are read as text and entities are decoded.
+ * @param {string | Iterable<string>} source - The document, or its chunks.
+ * @returns {Generator<XmlEvent>} - The opening tags, closing tags and text, in document order.
+ * A self-closing element opens and closes at once.
+ * @throws {TreeParseError} - If the document is not well-formed.
+ */
+export function* readXml(
+  source: string | Iterable<string>
+): Generator<XmlEvent> {
+  const chunks = (typeof source === "string" ? [source] : source)[
+    Symbol.iterator
+  ]();
+  let buffer = "";
+  let position = 0;
+  let line = 1;
+  const open: string[] = [];
+  let rootClosed = false;
+
+  // Appends the next chunk to the buffer, returning false at the end of the document
+  const pull = (): boolean => {
+    const next = chunks.next();
+    if (next.done) {
+      return false;
+    }
+    buffer += next.value;
+    return true;
+  };
+
+  // Finds a string from an index, reading more chunks as needed
+  const find = (search: string, from: number): number => {
+    let index = buffer.indexOf(search, from);
+    while (index === -1) {
+      const searched = Math.max(from, buffer.length - search.length + 1);
+      if (!pull()) {
+        return -1;
+      }
+      index = buffer.indexOf(search, searched);
+    }
+    return index;
+  };
+
+  // Finds the end of a tag, ignoring the `>` inside quoted attribute values
+  const findTagEnd = (from: number): number => {
+    let quote = "";
+    for (let i = from; ; i++) {
+      if (i >= buffer.length && !pull()) {
+        return -1;
+      }
+      const char = buffer[i];
+      if (quote) {
+        if (char === quote) quote = "";
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === ">") {
+        return i;
+      }
+    }
+  };
+
+  // Moves past a token, counting its lines
+  const consume = (end: number): string => {
+    const token = buffer.slice(position, end);
+    line += token.split("\n").length - 1;
+    position = end;
+    return token;
+  };
+
+  while (true) {
+    // Drop what has been read before reading more
+    buffer = buffer.slice(position);
+    position = 0;
+    if (buffer.length === 0 && !pull()) {
+      break;
+    }
+
+    const start = line;
+
+    if (buffer[0] !== "<") {
+      const end = find("<", 0);
+      const raw = consume(end === -1 ? buffer.length : end);
+      if (open.length === 0) {
+        if (raw.trim() !== "") {
+          throw new TreeParseError("Text outside of the root element", start);
+        }
+        continue;
+      }
+      yield { type: "text", text: decodeEntities(raw, start), line: start };
+      continue;
+    }
+
+    // Make sure the markup can be told apart
+    while (buffer.length < 9 && pull());
+
+    if (buffer.startsWith("<!--")) {
+      const end = find("-->", 4);
+      if (end === -1) {
+        throw new TreeParseError("Unclosed comment", start);
+      }
+      consume(end + 3);
+    } else if (buffer.startsWith("<![CDATA[")) {
+      const end = find("]]>", 9);
+      if (end === -1) {
+        throw new TreeParseError("Unclosed CDATA section", start);
+      }
+      if (open.length === 0) {
+        throw new TreeParseError("Text outside of the root element", start);
+      }
+      const text = consume(end).slice(9);
+      consume(end + 3);
+      yield { type: "text", text, line: start };
+    } else if (buffer.startsWith("<?")) {
+      const end = find("?>", 2);
+      if (end === -1) {
+        throw new TreeParseError("Unclosed processing instruction", start);
+      }
+      consume(end + 2);
+    } else if (buffer.startsWith("<!")) {
+      // A doctype, with its internal subset between brackets
+      let end = findTagEnd(2);
+      const subset = buffer.indexOf("[");
+      if (subset !== -1 && subset < end) {
+        const close = find("]", subset);
+        end = close === -1 ? -1 : findTagEnd(close);
+      }
+      if (end === -1) {
+        throw new TreeParseError("Unclosed declaration", start);
+      }
+      consume(end + 1);
+    } else if (buffer.startsWith("</")) {
+      const end = findTagEnd(2);
+      if (end === -1) {
+        throw new TreeParseError("Unclosed tag", start);
+      }
+      const tag = consume(end + 1)
+        .slice(2, -1)
+        .trim();
+      const expected = open.pop();
+      if (tag !== expected) {
+        throw new TreeParseError(
+          expected
+            ? `Expected </${expected}> but found </${tag}>`
+            : `Unexpected </${tag}>`,
+          start
+        );
+      }
+      rootClosed = open.length === 0;
+      yield { type: "close", tag, line: start };
+    } else {
+      const end = findTagEnd(1);
+      if (end === -1) {
+        throw new TreeParseError("Unclosed tag", start);
+      }
+      const { tag, attributes, selfClosing } = parseTag(
+        consume(end + 1),
+        start
+      );
+      if (rootClosed) {
+        throw new TreeParseError("Only one root element is allowed", start);
+      }
+
+      yield { type: "open", tag, attributes, line: start };
+      if (selfClosing) {
+        rootClosed = open.length === 0;
+        yield { type: "close", tag, line: start };
+      } else {
+        open.push(tag);
+      }
+    }
+  }
+
+  if (open.length > 0) {
+    throw new TreeParseError(`Unclosed element <${open.pop()}>`, line);
+  }
+}
+
+/**
+ * Parses an XML document into a plain object accepted by `Tree.parse`, with an `XmlElement` as the model of each node.
+ * The object is built without recursion, so deeply nested documents are supported.
+ * @param {string | Iterable<string>} source - The document, or its chunks.
+ * @param {XmlParseOptions} [options] - How to keep the text.
+ * @returns {any} - The plain object representing the tree, or null if the document has no root element.
+ * @throws {TreeParseError} - If the document is not well-formed.
+ */
+export function parseXml(
+  source: string | Iterable<string>,
+  options: XmlParseOptions = {}
+): any {
+  let root: any = null;
+  const path: any[] = [];
+  const text = textCollector(options);
+
+  for (const event of readXml(source)) {
+    const parent = path[path.length - 1];
+
+    if (event.type === "open") {
+      const object = {
+        model: { tag: event.tag, attributes: event.attributes },
+        children: [] as any[],
+      };
+      if (parent) {
+        text.flush(parent);
+        parent.children.push(object);
+      } else {
+        root = object;
+      }
+      path.push(object);
+    } else if (event.type === "close") {
+      text.flush(parent);
+      path.pop();
+    } else {
+      text.append(event.text);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Reads a DOM element, such as a browser `Element`, into a plain object accepted by `Tree.parse`,
+ * with an `XmlElement` as the model of each node. Comments and other nodes are skipped.
+ * Elements keep the `nodeName` of the DOM, which is upper case in HTML documents.
+ * @param {DomLikeNode} element - The element.
+ * @param {XmlParseOptions} [options] - How to keep the text.
+ * @returns {any} - The plain object representing the tree.
+ */
+export function parseDom(
+  element: DomLikeNode,
+  options: XmlParseOptions = {}
+): any {
+  const text = textCollector(options);
+  const readElement = (node: DomLikeNode) => ({
+    model: {
+      tag: node.nodeName,
+      attributes: Array.from(node.attributes ?? []).reduce(
+        (attributes, { name, value }) => ({ ...attributes, [name]: value }),
+        {} as Record<string, string>
+      ),
+    },
+    children: [] as any[],
+  });
+
+  const root = readElement(element);
+  // Each frame holds a DOM element, its object and the position of the next child to read
+  const stack: [DomLikeNode, any, number][] = [[element, root, 0]];
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const [node, object, index] = frame;
+
+    if (index === node.childNodes.length) {
+      text.flush(object);
+      stack.pop();
+      continue;
+    }
+
+    const child = node.childNodes[index];
+    frame[2]++;
+    if (child.nodeType === ELEMENT_NODE) {
+      const childObject = readElement(child);
+      text.flush(object);
+      object.children.push(childObject);
+      stack.push([child, childObject, 0]);
+    } else if (
+      child.nodeType === TEXT_NODE ||
+      child.nodeType === CDATA_SECTION_NODE
+    ) {
+      text.append(child.nodeValue ?? "");
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Writes a subtree as XML one piece at a time, so that large documents can be streamed.
+ * Nodes with the tag `#text` are written as text.
+ * @param {TreeNode<T>} node - The root element.
+ * @param {XmlWriteOptions<T>} [options] - The elements, indentation and declaration.
+ * @returns {Generator<string>} - The pieces of the document, a line at a time when indented.
+ */
+export function* writeXml<T>(
+  node: TreeNode<T>,
+  options: XmlWriteOptions<T> = {}
+): Generator<string> {
+  const {
+    toElement = (node: TreeNode<T>) => node.model as unknown as XmlElement,
+    indent = "  ",
+    declaration = false,
+  } = options;
+  const newline = indent ? "\n" : "";
+
+  if (declaration) {
+    yield `<?xml version="1.0" encoding="UTF-8"?>${newline}`;
+  }
+
+  // Each frame holds a node and its depth, or the closing tag to write after its children
+  const stack: [TreeNode<T> | string, number][] = [[node, 0]];
+  while (stack.length > 0) {
+    const [current, depth] = stack.pop()!;
+    const padding = indent.repeat(depth);
+
+    if (typeof current === "string") {
+      yield `${padding}</${current}>${newline}`;
+      continue;
+    }
+
+    const { tag, attributes = {}, text } = toElement(current);
+    if (tag === textTag) {
+      yield `${padding}${escapeXml(text ?? "")}${newline}`;
+      continue;
+    }
+
+    const head =
+      `<${tag}` +
+      Object.entries(attributes)
+        .map(([name, value]) => ` ${name}="${escapeXml(value, true)}"`)
+        .join("");
+    const content = text ? escapeXml(text) : "";
+
+    if (current.children.length === 0) {
+      yield content
+        ? `${padding}${head}>${content}</${tag}>${newline}`
+        : `${padding}${head}/>${newline}`;
+      continue;
+    }
+
+    yield `${padding}${head}>${content}${newline}`;
+    stack.push([tag, depth]);
+    for (let i = current.children.length - 1; i >= 0; i--) {
+      stack.push([current.children[i], depth + 1]);
+    }
+  }
+}
+
+/**
+ * Writes a subtree as an XML document.
+ * @param {TreeNode<T> | null} node - The root element, or null for an empty document.
+ * @param {XmlWriteOptions<T>} [options] - The elements, indentation and declaration.
+ * @returns {string} - The document.
+ */
+export function toXml<T>(
+  node: TreeNode<T> | null,
+  options: XmlWriteOptions<T> = {}
+): string {
+  return node ? Array.from(writeXml(node, options)).join("").trimEnd() : "";
+}
+
+/**
+ * Creates the DOM nodes of a subtree with a DOM document, such as the browser `document`.
+ * Nodes with the tag `#text` become text nodes.
+ * @param {TreeNode<T>} node - The root element.
+ * @param {DomLikeDocument<D>} document - The document creating the nodes.
+ * @param {(node: TreeNode<T>) => XmlElement} [toElement] - The element of a node. Defaults to the model.
+ * @returns {D} - The root DOM element, not attached to the document.
+ */
+export function toDom<T, D>(
+  node: TreeNode<T>,
+  document: DomLikeDocument<D>,
+  toElement = (node: TreeNode<T>) => node.model as unknown as XmlElement
+): D {
+  const create = (current: TreeNode<T>) => {
+    const { tag, attributes = {}, text } = toElement(current);
+    if (tag === textTag) {
+      return document.createTextNode(text ?? "");
+    }
+
+    const element = document.createElement(tag);
+    Object.entries(attributes).forEach(([name, value]) =>
+      element.setAttribute(name, value)
+    );
+    if (text) {
+      element.appendChild(document.createTextNode(text));
+    }
+    return element;
+  };
+
+  type DomElement = ReturnType<DomLikeDocument<D>["createElement"]>;
+
+  const root = create(node);
+  const stack: [TreeNode<T>, D][] = [[node, root]];
+  while (stack.length > 0) {
+    const [current, element] = stack.pop()!;
+    current.children.forEach((child) => {
+      const childElement = create(child);
+      (element as DomElement).appendChild(childElement);
+      stack.push([child, childElement]);
+    });
+  }
+
+  return root;
+}
+
+/**
+ * Collects the text between two tags, as `#text` children or the `text` of the element.
+ * @param {XmlParseOptions} options - How to keep the text.
+ * @returns {object} - `append` adds text, `flush` stores the text collected inside an element before one of its tags.
+ */
+function textCollector(options: XmlParseOptions) {
+  const { textNodes = false, trim = true } = options;
+  let pending = "";
+
+  return {
+    append(text: string) {
+      pending += text;
+    },
+    flush(object: any) {
+      const text = trim ? pending.trim() : pending;
+      pending = "";
+      if (text === "") {
+        return;
+      }
+
+      if (textNodes) {
+        object.children.push({
+          model: { tag: textTag, attributes: {}, text },
+          children: [],
+        });
+      } else {
+        const previous = object.model.text;
+        object.model.text =
+          previous === undefined
+            ? text
+            : `${previous}${trim ? " " : ""}${text}`;
+      }
+    },
+  };
+}
+
+/**
+ * Parses an opening tag.
+ * @param {string} token - The tag, from `<` to `>`.
+ * @param {number} line - The line of the tag.
+ * @returns {object} - The tag name, the attributes and whether the tag closes itself.
+ * @throws {TreeParseError} - If the tag is malformed.
+ */
+function parseTag(token: string, line: number) {
+  const selfClosing = token.endsWith("/>");
+  const body = token.slice(1, selfClosing ? -2 : -1);
+
+  const name = namePattern.exec(body);
+  if (!name) {
+    throw new TreeParseError("Invalid tag name", line);
+  }
+
+  const attributes: Record<string, string> = {};
+  let index = name[0].length;
+  while (true) {
+    // A failed sticky match resets lastIndex, so the position is kept aside
+    attributePattern.lastIndex = index;
+    const match = attributePattern.exec(body);
+    if (!match) {
+      break;
+    }
+    if (match[1] in attributes) {
+      throw new TreeParseError(`Duplicate attribute "${match[1]}"`, line);
+    }
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3], line);
+    index = attributePattern.lastIndex;
+  }
+
+  if (body.slice(index).trim() !== "") {
+    throw new TreeParseError(`Invalid attributes in <${name[0]}>`, line);
+  }
+
+  return { tag: name[0], attributes, selfClosing };
+}
+
+/**
+ * Decodes the predefined and numeric entities of a text.
+ * @param {string} text - The text.
+ * @param {number} line - The line of the text.
+ * @returns {string} - The decoded text.
+ * @throws {TreeParseError} - If an entity is unknown, refers to an invalid character or a `&` does not start an entity.
+ */
+function decodeEntities(text: string, line: number): string {
+  return text.replace(/&([^;&\s]*);?/g, (entity, name: string) => {
+    let decoded: string | undefined;
+    if (/^#x[\da-f]+$/i.test(name)) {
+      decoded = decodeCodePoint(parseInt(name.slice(2), 16));
+    } else if (/^#\d+$/.test(name)) {
+      decoded = decodeCodePoint(parseInt(name.slice(1), 10));
+    } else {
+      decoded = entities[name];
+    }
+
+    if (decoded === undefined || !entity.endsWith(";")) {
+      throw new TreeParseError(`Invalid entity "${entity}"`, line);
+    }
+    return decoded;
+  });
+}
+
+/**
+ * Decodes the character of a numeric entity.
+ * @param {number} codePoint - The code point.
+ * @returns {string | undefined} - The character, or undefined if the code point is out of range or a surrogate.
+ */
+function decodeCodePoint(codePoint: number): string | undefined {
+  if (codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+    return undefined;
+  }
+  return String.fromCodePoint(codePoint);
+}
+
+/**
+ * Escapes a text or an attribute value.
+ * @param {string} text - The text.
+ * @param {boolean} [attribute] - Whether the text is an attribute value between double quotes.
+ * @returns {string} - The escaped text.
+ */
+function escapeXml(text: string, attribute = false): string {
+  const escaped = String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+  return attribute
+    ? escaped
+        .replace(/"/g, "&quot;")
+        .replace(/\n/g, "&#10;")
+        .replace(/\t/g, "&#9;")
+    : escaped;
+}
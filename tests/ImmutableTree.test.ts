@@ -0,0 +1,132 @@
+import { ImmutableTree } from "../src/ImmutableTree";
+import { ImmutableTreeNode } from "../src/ImmutableTreeNode";
+import { Tree } from "../src/Tree";
+
+type Model = { id: number; name: string };
+
+describe("ImmutableTree", () => {
+  let tree: ImmutableTree<Model>;
+
+  beforeEach(() => {
+    // Create a sample tree for testing
+    tree = ImmutableTree.parse<Model>({
+      model: { id: 0, name: "root" },
+      children: [
+        {
+          model: { id: 1, name: "child1" },
+          children: [{ model: { id: 3, name: "grandchild1" }, children: [] }],
+        },
+        { model: { id: 2, name: "child2" }, children: [] },
+      ],
+    });
+  });
+
+  test("nodes should be frozen", () => {
+    expect(Object.isFrozen(tree.root)).toBe(true);
+    expect(Object.isFrozen(tree.root?.children)).toBe(true);
+  });
+
+  test("query methods should match the Tree API", () => {
+    const grandchild1 = tree.find("name", "grandchild1")!;
+
+    expect(tree.all()?.map((node) => node.model.name)).toEqual([
+      "grandchild1",
+      "child1",
+      "child2",
+      "root",
+    ]);
+    expect(tree.getPath(grandchild1)?.map((node) => node.model.name)).toEqual([
+      "root",
+      "child1",
+      "grandchild1",
+    ]);
+    expect(tree.getReversePath(grandchild1)?.[0]).toBe(grandchild1);
+    expect(tree.getParent(grandchild1)?.model.name).toBe("child1");
+  });
+
+  test("addChild should share the unchanged subtrees", () => {
+    const child2 = tree.find("name", "child2")!;
+    const newNode = new ImmutableTreeNode({ id: 4, name: "newNode" });
+
+    const updated = tree.addChild(child2, newNode);
+
+    expect(updated).not.toBe(tree);
+    expect(updated.root).not.toBe(tree.root);
+    expect(updated.root?.children[0]).toBe(tree.root?.children[0]);
+    expect(updated.root?.children[1].children).toEqual([newNode]);
+    expect(child2.children).toHaveLength(0);
+  });
+
+  test("remove, move and updateModel should return new trees", () => {
+    const child1 = tree.find("name", "child1")!;
+    const child2 = tree.find("name", "child2")!;
+    const grandchild1 = tree.find("name", "grandchild1")!;
+
+    const removed = tree.remove(child1);
+    expect(removed.all()).toHaveLength(2);
+    // The shifted sibling is shared, its index derived from each tree
+    expect(removed.root?.children[0]).toBe(child2);
+    expect(removed.getIndex(child2)).toBe(1);
+    expect(tree.getIndex(child2)).toBe(2);
+    expect(removed.getIndex(child1)).toBeNull();
+    expect(removed.getIndex(removed.root!)).toBe(0);
+    expect(removed.remove(child2).root?.children).toHaveLength(0);
+    expect(tree.all()).toHaveLength(4);
+
+    const moved = tree.move(grandchild1, child2);
+    expect(moved.find("name", "grandchild1")).toBe(grandchild1);
+    expect(moved.getParent(grandchild1)?.model.name).toBe("child2");
+    expect(moved.find("name", "child1")?.children).toHaveLength(0);
+    expect(() => tree.move(child1, grandchild1)).toThrow();
+
+    // A node can be moved to an ancestor of its parent, after the last child
+    const lifted = tree.move(grandchild1, tree.root!);
+    expect(
+      lifted.root?.children.map((node) => [
+        node.model.name,
+        lifted.getIndex(node),
+      ])
+    ).toEqual([
+      ["child1", 1],
+      ["child2", 2],
+      ["grandchild1", 3],
+    ]);
+    expect(lifted.find("name", "child1")?.children).toHaveLength(0);
+
+    // A new parent outside the tree leaves it unchanged
+    const outside = new ImmutableTreeNode({ id: 5, name: "outside" });
+    expect(tree.move(child2, outside)).toBe(tree);
+
+    const renamed = tree.updateModel(child2, { id: 2, name: "renamed" });
+    expect(renamed.root?.children[0]).toBe(child1);
+    expect(renamed.root?.children[1].model.name).toBe("renamed");
+
+    expect(tree.remove(tree.root!).root).toBeNull();
+  });
+
+  test("insertChild and deleteChildren should mirror the Tree methods", () => {
+    const newNode = new ImmutableTreeNode({ id: 4, name: "newNode" });
+
+    const inserted = tree.insertChild(newNode, "name", "child2");
+    expect(inserted.getParent(newNode)?.model.name).toBe("child2");
+    expect(tree.insertChild(newNode, "name", "missing")).toBe(tree);
+
+    const deleted = tree.deleteChildren(
+      tree.root!,
+      (node) => node.model.id > 1
+    );
+    expect(deleted.root?.children.map((node) => node.model.name)).toEqual([
+      "child1",
+    ]);
+  });
+
+  test("fromTree and toTree should convert between mutable and immutable trees", () => {
+    const mutable = new Tree<Model>(tree.toObject());
+    const copy = ImmutableTree.fromTree(mutable);
+
+    expect(copy.toObject()).toEqual(tree.toObject());
+    expect(copy.toTree().find("name", "grandchild1")?.parent?.model.name).toBe(
+      "child1"
+    );
+  });
+});
@@ -1,5 +1,6 @@
 import { Tree } from "../src/Tree";
-import { TreeNode } from "../src/TreeNode";
+import { CycleError, DuplicateKeyError, FlatTreeError } from "../src/errors";
+import { TreeNode, WalkSignal, traversalStrategy } from "../src/TreeNode";
 
 describe("Tree", () => {
   let tree: Tree<{ id: number; name: string; data: { value: number } }>;
@@ -150,4 +151,1003 @@ describe("Tree", () => {
     const parentNode = tree.find((node) => node.model.name === "child2");
     expect(parentNode?.children).toContain(newNode);
   });
+
+  describe("parse options", () => {
+    test("parse should use the model key and ignore the children array", () => {
+      expect(tree.root?.model).toEqual({
+        id: 0,
+        name: "root",
+        data: { value: 10 },
+      });
+      expect(tree.root?.id).toBe(0);
+      expect(tree.root?.children[0].children[0].id).toBe(3);
+    });
+
+    test("parse should honour a custom children key and strip it from the model", () => {
+      const folders = new Tree<{ id: string; name: string }>(
+        {
+          id: "a",
+          name: "root",
+          subFolders: [
+            { id: "b", name: "docs", subFolders: [] },
+            { id: "c", name: "src", subFolders: [{ id: "d", name: "lib" }] },
+          ],
+        },
+        undefined,
+        { childrenKey: "subFolders", modelKey: null, stripChildren: true }
+      );
+
+      expect(folders.all()).toHaveLength(4);
+      expect(folders.root?.model).toEqual({ id: "a", name: "root" });
+      expect(folders.find("name", "lib")?.id).toBe("d");
+    });
+
+    test("parse should read the id from a custom id key", () => {
+      const items = new Tree<{ key: number }>(
+        { key: 1, items: [{ key: 2 }] },
+        undefined,
+        { childrenKey: "items", idKey: "key" }
+      );
+
+      expect(items.root?.id).toBe(1);
+      expect(items.root?.children[0].id).toBe(2);
+      expect(items.root?.model).toHaveProperty("items");
+    });
+  });
+
+  describe("serialization", () => {
+    test("toObject should emit the shape accepted by parse", () => {
+      const object = tree.toObject();
+
+      expect(object).toEqual({
+        model: { id: 0, name: "root", data: { value: 10 } },
+        children: [
+          {
+            model: { id: 1, name: "child1", data: { value: 20 } },
+            children: [
+              {
+                model: { id: 3, name: "grandchild1", data: { value: 40 } },
+                children: [],
+              },
+            ],
+          },
+          {
+            model: { id: 2, name: "child2", data: { value: 30 } },
+            children: [],
+          },
+        ],
+      });
+      expect(new Tree(object).toObject()).toEqual(object);
+    });
+
+    test("toObject should honour the options and the parse keys", () => {
+      const folders = new Tree<{ name: string }>(
+        { name: "root", items: [{ name: "a" }] },
+        undefined,
+        { childrenKey: "items", modelKey: null, stripChildren: true }
+      );
+
+      expect(
+        folders.toObject({
+          omitEmptyChildren: true,
+          includeIndex: true,
+          replacer: (model) => ({ name: model.name.toUpperCase() }),
+        })
+      ).toEqual({
+        name: "ROOT",
+        index: 0,
+        items: [{ name: "A", index: 1 }],
+      });
+    });
+
+    test("JSON.stringify should serialize the tree without internal fields", () => {
+      const json = JSON.stringify(tree);
+
+      expect(json).not.toContain("strategy");
+      expect(json).not.toContain("parseOptions");
+      expect(JSON.parse(json)).toEqual(tree.toObject());
+      expect(tree.stringify({ omitEmptyChildren: true })).toBe(
+        JSON.stringify(tree.toObject({ omitEmptyChildren: true }))
+      );
+    });
+
+    test("toObject should leave the raw children out of the models", () => {
+      const raw = new Tree<any>({
+        id: 1,
+        children: [{ id: 2, children: [{ id: 3 }] }],
+      });
+      raw.remove(raw.getById(3)!);
+
+      expect(raw.toObject({ omitEmptyChildren: true })).toEqual({
+        model: { id: 1 },
+        children: [{ model: { id: 2 } }],
+      });
+      expect(raw.root!.model.children).toHaveLength(1);
+    });
+
+    test("toObject should keep the children property of the other models", () => {
+      const nested = new Tree<any>({
+        model: { name: "r", children: 2 },
+        children: [{ model: { name: "a", children: ["x"] } }],
+      });
+
+      expect(nested.toObject({ omitEmptyChildren: true })).toEqual({
+        model: { name: "r", children: 2 },
+        children: [{ model: { name: "a", children: ["x"] } }],
+      });
+      expect(
+        nested.toObject({
+          replacer: (model) => ({ ...model, children: [model.name] }),
+        }).model
+      ).toEqual({ name: "r", children: ["r"] });
+    });
+  });
+
+  test("parse and move should maintain parent references", () => {
+    const child1 = tree.find("name", "child1")!;
+    const child2 = tree.find("name", "child2")!;
+
+    expect(child1.parent).toBe(tree.root);
+    expect(tree.root?.parent).toBeNull();
+
+    tree.move(child1, child2);
+
+    expect(child1.parent).toBe(child2);
+    expect(tree.root?.children).toEqual([child2]);
+    expect(tree.getPath(child1.children[0])?.map((n) => n.model.name)).toEqual([
+      "root",
+      "child2",
+      "child1",
+      "grandchild1",
+    ]);
+  });
+
+  describe("id index", () => {
+    test("getById should look up nodes by their parsed id", () => {
+      expect(tree.getById(3)?.model.name).toBe("grandchild1");
+      expect(tree.hasId(42)).toBe(false);
+
+      tree.indexBy();
+
+      expect(tree.getById(0)).toBe(tree.root);
+      expect(tree.getById(3)?.model.name).toBe("grandchild1");
+      expect(tree.hasId(2)).toBe(true);
+      expect(tree.hasId(42)).toBe(false);
+    });
+
+    test("find should use the default index for the id key", () => {
+      tree.indexBy();
+      const iterate = jest.spyOn(tree.root!, "preOrder");
+
+      expect(tree.find("id", 3)?.model.name).toBe("grandchild1");
+      expect(tree.find("id", 42)).toBeNull();
+      expect(iterate).not.toHaveBeenCalled();
+
+      tree.find("name", "child1");
+      expect(iterate).toHaveBeenCalled();
+    });
+
+    test("the index should follow tree and node mutations", () => {
+      tree.indexBy({ key: "name" });
+      const child1 = tree.getById("child1")!;
+      const newNode = new TreeNode(
+        { id: 4, name: "newNode", data: { value: 50 } },
+        1
+      );
+      newNode.addChild(
+        new TreeNode({ id: 5, name: "leaf", data: { value: 60 } }, 1)
+      );
+
+      tree.insertChild(newNode, "name", "child2");
+      expect(tree.getById("leaf")?.parent).toBe(newNode);
+      expect(tree.find("name", "newNode")).toBe(newNode);
+
+      tree.remove(child1);
+      expect(tree.hasId("child1")).toBe(false);
+      expect(tree.hasId("grandchild1")).toBe(false);
+
+      tree.root!.addChild(child1);
+      expect(tree.getById("grandchild1")).toBe(child1.children[0]);
+
+      tree.root!.deleteChildren("name", "child2");
+      expect(tree.hasId("leaf")).toBe(false);
+    });
+
+    test("duplicate keys should throw by default", () => {
+      expect(() =>
+        tree.indexBy({ key: (node) => node.children.length })
+      ).toThrow(DuplicateKeyError);
+      expect(tree.hasId(0)).toBe(true); // falls back to a scan of node ids
+
+      tree.indexBy();
+      const duplicate = new TreeNode(
+        { id: 1, name: "duplicate", data: { value: 0 } },
+        1
+      );
+
+      expect(() => tree.root!.addChild(duplicate)).toThrow(DuplicateKeyError);
+      expect(tree.root!.children).not.toContain(duplicate);
+      expect(duplicate.parent).toBeNull();
+      expect(tree.getById(1)?.model.name).toBe("child1");
+    });
+
+    test("duplicate keys can be reported instead", () => {
+      const onDuplicate = jest.fn();
+      tree.indexBy({ key: (node) => node.children.length, onDuplicate });
+
+      expect(onDuplicate).toHaveBeenCalledTimes(1);
+      expect(tree.getById(0)?.model.name).toBe("grandchild1");
+    });
+  });
+
+  test("the tree should be iterable in pre-order", () => {
+    const names: string[] = [];
+
+    for (const node of tree) {
+      names.push(node.model.name);
+      if (node.model.name === "grandchild1") break;
+    }
+
+    expect(names).toEqual(["root", "child1", "grandchild1"]);
+    expect([...tree.levelOrder()].map((node) => node.model.name)).toEqual([
+      "root",
+      "child1",
+      "child2",
+      "grandchild1",
+    ]);
+    expect([...tree.traverse("post-order")]).toEqual(tree.all());
+  });
+
+  describe("walk", () => {
+    test("walk should pass the node context to the callback", () => {
+      const visited: string[] = [];
+
+      tree.walk((node, { depth, parent, path, indexInParent }) => {
+        visited.push(
+          `${node.model.name}:${depth}:${parent?.model.name ?? "-"}:` +
+            `${indexInParent}:${path.map((n) => n.model.name).join("/")}`
+        );
+      });
+
+      // A plain callback visits the children before their parent
+      expect(visited).toEqual([
+        "grandchild1:2:child1:0:root/child1/grandchild1",
+        "child1:1:root:0:root/child1",
+        "child2:1:root:1:root/child2",
+        "root:0:-:-1:root",
+      ]);
+    });
+
+    test("walk should skip subtrees and stop early", () => {
+      const skipped: string[] = [];
+      tree.walk({
+        enter: (node) => {
+          skipped.push(node.model.name);
+          if (node.model.name === "child1") return WalkSignal.SKIP;
+        },
+      });
+      expect(skipped).toEqual(["root", "child1", "child2"]);
+
+      const stopped: string[] = [];
+      const completed = tree.walk((node) => {
+        stopped.push(node.model.name);
+        if (node.model.name === "child1") return WalkSignal.STOP;
+      });
+      expect(completed).toBe(false);
+      expect(stopped).toEqual(["grandchild1", "child1"]);
+    });
+
+    test("walk should call the enter and leave hooks", () => {
+      let output = "";
+
+      tree.walk({
+        enter: (node) => {
+          output += `<${node.model.name}>`;
+          if (node.model.name === "child1") return WalkSignal.SKIP;
+        },
+        leave: (node) => {
+          output += `</${node.model.name}>`;
+        },
+      });
+
+      expect(output).toBe("<root><child1></child1><child2></child2></root>");
+    });
+  });
+
+  describe("events", () => {
+    test("mutations should emit typed events", () => {
+      const events: string[] = [];
+      tree.on("nodeAdded", ({ node, parent, index }) =>
+        events.push(`added ${node.model.name} ${parent?.model.name} ${index}`)
+      );
+      tree.on("nodeRemoved", ({ node, parent, index }) =>
+        events.push(`removed ${node.model.name} ${parent?.model.name} ${index}`)
+      );
+      tree.on("nodeMoved", ({ node, oldParent, oldIndex, parent, index }) =>
+        events.push(
+          `moved ${node.model.name} ${oldParent.model.name} ${oldIndex} ` +
+            `${parent.model.name} ${index}`
+        )
+      );
+      tree.on("modelUpdated", ({ oldModel, model }) =>
+        events.push(`updated ${oldModel.name} ${model.name}`)
+      );
+
+      const child1 = tree.find("name", "child1")!;
+      const child2 = tree.find("name", "child2")!;
+      const newNode = new TreeNode(
+        { id: 4, name: "newNode", data: { value: 50 } },
+        1
+      );
+
+      tree.insertChild(newNode, "name", "child2");
+      tree.move(child1, child2);
+      tree.updateModel(newNode, { ...newNode.model, name: "renamed" });
+      tree.remove(newNode);
+
+      expect(events).toEqual([
+        "added newNode child2 0",
+        "moved child1 root 0 child2 1",
+        "updated newNode renamed",
+        "removed renamed child2 0",
+      ]);
+    });
+
+    test("off and once should unsubscribe listeners", () => {
+      const listener = jest.fn();
+      const onceListener = jest.fn();
+      const unsubscribe = tree.on("nodeRemoved", listener);
+      tree.once("nodeRemoved", onceListener);
+
+      tree.remove(tree.find("name", "grandchild1")!);
+      unsubscribe();
+      tree.remove(tree.find("name", "child2")!);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(onceListener).toHaveBeenCalledTimes(1);
+    });
+
+    test("batch should deliver several mutations in one change notification", () => {
+      const change = jest.fn();
+      const added = jest.fn();
+      tree.on("change", change);
+      tree.on("nodeAdded", added);
+
+      tree.batch(() => {
+        tree.root!.addChild(
+          new TreeNode({ id: 5, name: "a", data: { value: 0 } }, 1)
+        );
+        tree.root!.addChild(
+          new TreeNode({ id: 6, name: "b", data: { value: 0 } }, 1)
+        );
+        expect(added).not.toHaveBeenCalled();
+      });
+
+      expect(added).toHaveBeenCalledTimes(2);
+      expect(change).toHaveBeenCalledTimes(1);
+      expect(change.mock.calls[0][0].map((event: any) => event.type)).toEqual([
+        "nodeAdded",
+        "nodeAdded",
+      ]);
+    });
+
+    test("updateModel should re-key the id index", () => {
+      tree.indexBy({ key: "name" });
+      const child2 = tree.getById("child2")!;
+
+      tree.updateModel(child2, { ...child2.model, name: "renamed" });
+      expect(tree.hasId("child2")).toBe(false);
+      expect(tree.getById("renamed")).toBe(child2);
+
+      const updated = jest.fn();
+      tree.on("modelUpdated", updated);
+      expect(() =>
+        tree.updateModel(child2, { ...child2.model, name: "child1" })
+      ).toThrow(DuplicateKeyError);
+      expect(child2.model.name).toBe("renamed");
+      expect(tree.getById("renamed")).toBe(child2);
+      expect(updated).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("clone, subtree and graft", () => {
+    test("clone should copy the whole tree", () => {
+      const copy = tree.clone();
+
+      expect(copy.toObject()).toEqual(tree.toObject());
+      expect(copy.root).not.toBe(tree.root);
+      expect(copy.strategy).toBe(tree.strategy);
+    });
+
+    test("subtree should copy or detach a node into its own tree", () => {
+      const child1 = tree.find("name", "child1")!;
+
+      const copy = tree.subtree(child1);
+      expect(copy.root?.model.name).toBe("child1");
+      expect(copy.root).not.toBe(child1);
+      expect(tree.all()).toHaveLength(4);
+
+      const detached = tree.subtree(child1, { detach: true });
+      expect(detached.root).toBe(child1);
+      expect(child1.parent).toBeNull();
+      expect(tree.all()).toHaveLength(2);
+    });
+
+    test("graft should insert another tree at a position and renumber indexes", () => {
+      const template = new Tree<{ id: number; name: string; data: any }>({
+        model: { id: 10, name: "template", data: {} },
+        children: [{ model: { id: 11, name: "page", data: {} }, index: 7 }],
+      });
+
+      const grafted = tree.graft(template, tree.root!, 1)!;
+      expect(tree.root?.children.map((node) => node.model.name)).toEqual([
+        "child1",
+        "template",
+        "child2",
+      ]);
+      expect(tree.root?.children.map((node) => node.index)).toEqual([1, 2, 3]);
+      expect(grafted.children[0].index).toBe(1);
+      expect(template.root).not.toBeNull();
+      expect(template.root).not.toBe(grafted);
+
+      tree.graft(template, tree.find("name", "child2")!, undefined, {
+        detach: true,
+      });
+      expect(template.root).toBeNull();
+      expect(tree.find("name", "child2")?.children).toHaveLength(1);
+    });
+  });
+
+  test("move should insert the node at a position", () => {
+    const child2 = tree.find("name", "child2")!;
+    const grandchild1 = tree.find("name", "grandchild1")!;
+
+    tree.move(grandchild1, tree.root!, 0);
+
+    expect(tree.root?.children.map((node) => node.model.name)).toEqual([
+      "grandchild1",
+      "child1",
+      "child2",
+    ]);
+    expect(child2.index).toBe(3);
+  });
+
+  describe("validate", () => {
+    it("should report a valid tree", () => {
+      const tree = new Tree({
+        model: { id: 1 },
+        children: [{ model: { id: 2 } }, { model: { id: 3 } }],
+      });
+
+      expect(tree.validate()).toEqual({ valid: true, issues: [] });
+    });
+
+    it("should throw when parsing an object that contains itself", () => {
+      const object: any = { model: { id: 1 }, children: [] };
+      const child: any = { model: { id: 2 }, children: [object] };
+      object.children.push(child);
+
+      expect(() => new Tree(object)).toThrow(CycleError);
+    });
+
+    it("should report cycles, shared nodes and broken parents", () => {
+      const tree = new Tree({
+        model: { id: 1 },
+        children: [{ model: { id: 2 } }, { model: { id: 3 } }],
+      });
+      const [a, b] = tree.root!.children;
+      a.children.push(tree.root!);
+      b.children.push(a);
+
+      const types = tree.validate().issues.map((issue) => issue.type);
+      expect(types).toEqual(["cycle", "multipleParents"]);
+
+      const orphan = new TreeNode<any>({ id: 4 }, 0);
+      b.children.push(orphan);
+      expect(tree.validate().issues.map((issue) => issue.type)).toContain(
+        "parentMismatch"
+      );
+    });
+
+    it("should report duplicate keys and schema errors", () => {
+      const tree = new Tree({
+        model: { id: 1, name: "root" },
+        children: [{ model: { id: 2 } }, { model: { id: 2, name: "b" } }],
+      });
+
+      const { valid, issues } = tree.validate({
+        schema: (model: any) => (model.name ? true : "Missing name"),
+      });
+
+      expect(valid).toBe(false);
+      expect(issues.map(({ type, message }) => [type, message])).toEqual([
+        ["schema", "Missing name"],
+        ["duplicateKey", "Duplicate key: 2"],
+      ]);
+    });
+  });
+
+  describe("flat rows", () => {
+    const rows = [
+      { id: 3, parentId: 1, name: "b" },
+      { id: 4, parentId: 2, name: "a1" },
+      { id: 1, parentId: null, name: "root" },
+      { id: 2, parentId: 1, name: "a" },
+    ];
+
+    it("should build a tree from rows in any order", () => {
+      const tree = Tree.fromFlat(rows);
+
+      expect(tree.root!.model).toBe(rows[2]);
+      expect(tree.root!.children.map((node) => node.id)).toEqual([3, 2]);
+      expect(tree.getById(4)!.parent!.id).toBe(2);
+      expect(tree.getById(2)!.index).toBe(2);
+      expect(Tree.fromFlat([]).root).toBeNull();
+    });
+
+    it("should use custom keys and root value", () => {
+      const tree = Tree.fromFlat(
+        [
+          { key: "a", parent: "" },
+          { key: "b", parent: "a" },
+        ],
+        { idKey: "key", parentKey: "parent", rootValue: "" }
+      );
+
+      expect(tree.getById("b")!.parent).toBe(tree.root);
+    });
+
+    it("should report multiple roots, orphans and duplicates", () => {
+      expect(() =>
+        Tree.fromFlat([...rows, { id: 5, parentId: null, name: "c" }])
+      ).toThrow(FlatTreeError);
+
+      const cyclic = [
+        { id: 6, parentId: 7 },
+        { id: 7, parentId: 6 },
+      ];
+      const missing = { id: 8, parentId: 99 };
+      let error: unknown;
+      try {
+        Tree.fromFlat<any>([...rows, ...cyclic, missing]);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(FlatTreeError);
+      expect((error as FlatTreeError).orphans).toEqual([...cyclic, missing]);
+
+      const orphans: any[] = [];
+      const tree = Tree.fromFlat<any>([...rows, missing], {
+        onOrphan: (row) => orphans.push(row),
+      });
+      expect(orphans).toEqual([missing]);
+      expect(tree.hasId(8)).toBe(false);
+
+      expect(() => Tree.fromFlat([...rows, rows[0]])).toThrow(
+        DuplicateKeyError
+      );
+    });
+
+    it("should export rows with parent ids, depth and position", () => {
+      const flat = Tree.fromFlat(rows).toFlat();
+
+      expect(
+        flat.map(({ id, parentId, depth, position }) => [
+          id,
+          parentId,
+          depth,
+          position,
+        ])
+      ).toEqual([
+        [1, null, 0, 0],
+        [3, 1, 1, 0],
+        [2, 1, 1, 1],
+        [4, 2, 2, 0],
+      ]);
+      expect(Tree.fromFlat(flat).toFlat()).toEqual(flat);
+    });
+
+    it("should leave the raw children of parsed models out of the rows", () => {
+      const parsed = new Tree<any>({
+        id: 1,
+        children: [{ id: 2, children: [{ id: 3 }] }],
+      });
+      const flat = parsed.toFlat();
+
+      expect(flat).toEqual([
+        { id: 1, parentId: null, depth: 0, position: 0 },
+        { id: 2, parentId: 1, depth: 1, position: 0 },
+        { id: 3, parentId: 2, depth: 2, position: 0 },
+      ]);
+      expect(Tree.fromFlat(flat).toFlat()).toEqual(flat);
+    });
+  });
+
+  describe("materialized paths and nested sets", () => {
+    const rows = [
+      { id: 1, parentId: null },
+      { id: 4, parentId: 1 },
+      { id: 9, parentId: 4 },
+      { id: 5, parentId: 1 },
+    ];
+
+    it("should export and import materialized paths", () => {
+      const paths = Tree.fromFlat(rows).toPaths();
+
+      expect(paths.map((row) => row.path)).toEqual([
+        "/1/",
+        "/1/4/",
+        "/1/4/9/",
+        "/1/5/",
+      ]);
+
+      const tree = Tree.fromPaths([...paths].reverse());
+      expect(tree.getById(9)!.getPathString()).toBe("/1/4/9/");
+      expect(tree.root!.children.map((node) => node.id)).toEqual([5, 4]);
+    });
+
+    it("should report orphan paths and multiple roots", () => {
+      expect(() =>
+        Tree.fromPaths([{ path: "/1/" }, { path: "/2/3/" }])
+      ).toThrow(FlatTreeError);
+      expect(() => Tree.fromPaths([{ path: "/1/" }, { path: "/2/" }])).toThrow(
+        FlatTreeError
+      );
+    });
+
+    it("should export and import nested sets", () => {
+      const sets = Tree.fromFlat(rows).toNestedSets();
+
+      expect(sets.map(({ id, left, right }) => [id, left, right])).toEqual([
+        [1, 1, 8],
+        [4, 2, 5],
+        [9, 3, 4],
+        [5, 6, 7],
+      ]);
+
+      const tree = Tree.fromNestedSets([...sets].reverse());
+      expect(tree.toFlat().map(({ id, parentId }) => [id, parentId])).toEqual([
+        [1, null],
+        [4, 1],
+        [9, 4],
+        [5, 1],
+      ]);
+    });
+
+    it("should leave the raw children of parsed models out of the rows", () => {
+      const parsed = new Tree<any>({
+        id: 1,
+        children: [{ id: 4, children: [{ id: 9 }] }, { id: 5 }],
+      });
+
+      const paths = parsed.toPaths();
+      expect(paths).toEqual([
+        { id: 1, path: "/1/" },
+        { id: 4, path: "/1/4/" },
+        { id: 9, path: "/1/4/9/" },
+        { id: 5, path: "/1/5/" },
+      ]);
+      expect(Tree.fromPaths(paths).toPaths()).toEqual(paths);
+
+      const sets = parsed.toNestedSets();
+      expect(sets).toEqual([
+        { id: 1, left: 1, right: 8, depth: 0 },
+        { id: 4, left: 2, right: 5, depth: 1 },
+        { id: 9, left: 3, right: 4, depth: 2 },
+        { id: 5, left: 6, right: 7, depth: 1 },
+      ]);
+      expect(Tree.fromNestedSets(sets).toNestedSets()).toEqual(sets);
+    });
+
+    it("should report overlapping intervals and multiple roots", () => {
+      const overlapping = { id: 3, left: 3, right: 9 };
+      const orphans: any[] = [];
+      const tree = Tree.fromNestedSets<any>(
+        [
+          { id: 1, left: 1, right: 8 },
+          { id: 2, left: 2, right: 5 },
+          overlapping,
+        ],
+        { onOrphan: (row) => orphans.push(row) }
+      );
+
+      expect(orphans).toEqual([overlapping]);
+      expect(tree.root!.children.length).toBe(1);
+      expect(() =>
+        Tree.fromNestedSets([
+          { id: 1, left: 1, right: 2 },
+          { id: 2, left: 3, right: 4 },
+        ])
+      ).toThrow(FlatTreeError);
+    });
+  });
+
+  describe("plural search", () => {
+    let tree: Tree<any>;
+
+    beforeEach(() => {
+      tree = new Tree({
+        model: { id: 1, status: "published" },
+        children: [
+          {
+            model: { id: 2, status: "draft" },
+            children: [{ model: { id: 4, status: "draft" } }],
+          },
+          {
+            model: { id: 3, status: "published" },
+            children: [{ model: { id: 5, status: "draft" } }],
+          },
+        ],
+      });
+    });
+
+    it("should find and count every matching node", () => {
+      const ids = (nodes: TreeNode<any>[]) => nodes.map((node) => node.id);
+
+      expect(ids(tree.findAll("status", "draft"))).toEqual([2, 4, 5]);
+      expect(
+        ids(tree.findAll((node) => node.id > 1, { order: "level-order" }))
+      ).toEqual([2, 3, 4, 5]);
+      expect(ids(tree.findAll("status", "draft", { maxDepth: 1 }))).toEqual([
+        2,
+      ]);
+      expect(tree.count("status", "draft")).toBe(3);
+      expect(tree.count(() => true, { maxDepth: 0 })).toBe(1);
+      expect(new Tree(null).findAll(() => true)).toEqual([]);
+    });
+
+    it("should remove every matching node in a single batch", () => {
+      const changes: number[] = [];
+      tree.on("change", (events) => changes.push(events.length));
+
+      const removed = tree.removeAll("status", "draft");
+
+      expect(removed.map((node) => node.id)).toEqual([2, 5]);
+      expect(tree.count(() => true)).toBe(2);
+      expect(changes).toEqual([2]);
+    });
+  });
+
+  describe("relationships", () => {
+    let tree: Tree<any>;
+
+    beforeEach(() => {
+      // Build a tree whose node i has the parent floor((i - 1) / 3)
+      const rows = Array.from({ length: 40 }, (_, id) => ({
+        id,
+        parentId: id === 0 ? null : Math.floor((id - 1) / 3),
+      }));
+      tree = Tree.fromFlat(rows);
+    });
+
+    it("should relate two nodes", () => {
+      const [a, b, c] = [tree.getById(13)!, tree.getById(5)!, tree.getById(4)!];
+
+      expect(tree.lowestCommonAncestor(a, b)).toBe(tree.getById(1));
+      expect(tree.distance(a, b)).toBe(3);
+      expect(tree.distance(a, a)).toBe(0);
+      expect(tree.pathBetween(a, b)!.map((node) => node.id)).toEqual([
+        13, 4, 1, 5,
+      ]);
+      expect(tree.isAncestorOf(c, a)).toBe(true);
+      expect(tree.isDescendantOf(a, c)).toBe(true);
+      expect(tree.isAncestorOf(a, a)).toBe(false);
+
+      const outsider = new TreeNode<any>({ id: 99 }, 0);
+      expect(tree.lowestCommonAncestor(a, outsider)).toBeNull();
+      expect(tree.distance(a, outsider)).toBeNull();
+      expect(tree.pathBetween(a, outsider)).toBeNull();
+    });
+
+    it("should give the same answers with the ancestry index", () => {
+      const nodes = [...tree];
+      const answers = () =>
+        nodes.flatMap((a) =>
+          nodes.map((b) => [
+            tree.lowestCommonAncestor(a, b)?.id,
+            tree.distance(a, b),
+            tree.isAncestorOf(a, b),
+          ])
+        );
+
+      const expected = answers();
+      tree.indexAncestry();
+      expect(answers()).toEqual(expected);
+    });
+
+    it("should rebuild the ancestry index after a structural change", () => {
+      tree.indexAncestry();
+      const [a, b] = [tree.getById(13)!, tree.getById(5)!];
+      expect(tree.distance(a, b)).toBe(3);
+
+      tree.move(a, b);
+      expect(tree.lowestCommonAncestor(a, b)).toBe(b);
+      expect(tree.distance(a, b)).toBe(1);
+
+      tree.remove(b);
+      expect(tree.distance(a, tree.root!)).toBeNull();
+    });
+  });
+
+  describe("aggregates and computed fields", () => {
+    let tree: Tree<{ id: number; size: number }>;
+
+    beforeEach(() => {
+      tree = new Tree({
+        model: { id: 1, size: 0 },
+        children: [
+          {
+            model: { id: 2, size: 0 },
+            children: [
+              { model: { id: 4, size: 10 } },
+              { model: { id: 5, size: 20 } },
+            ],
+          },
+          { model: { id: 3, size: 5 } },
+        ],
+      });
+    });
+
+    it("should aggregate the tree bottom-up", () => {
+      expect(
+        tree.aggregate<number>((node, sizes) =>
+          sizes.reduce((sum, size) => sum + size, node.model.size)
+        )
+      ).toBe(35);
+      expect(new Tree(null).aggregate(() => 1)).toBeUndefined();
+    });
+
+    it("should provide the built-in computed fields", () => {
+      const root = tree.root!;
+
+      expect(tree.computed(root, "size")).toBe(5);
+      expect(tree.computed(root, "height")).toBe(2);
+      expect(tree.computed(root, "leafCount")).toBe(3);
+      expect(tree.computed(tree.getById(2)!, "size")).toBe(3);
+      expect(() => tree.computed(root, "unknown")).toThrow(
+        "Unknown computed field"
+      );
+    });
+
+    it("should recompute only the ancestors of a change", () => {
+      const calls: number[] = [];
+      tree.defineComputed<number>("total", (node, totals) => {
+        calls.push(node.model.id);
+        return totals.reduce((sum, total) => sum + total, node.model.size);
+      });
+
+      expect(tree.computed(tree.root!, "total")).toBe(35);
+      calls.length = 0;
+
+      tree.getById(4)!.addChild(new TreeNode({ id: 6, size: 1 }, 0));
+      expect(tree.computed(tree.root!, "total")).toBe(36);
+      expect(calls).toEqual([6, 4, 2, 1]);
+      calls.length = 0;
+
+      tree.updateModel(tree.getById(3)!, { id: 3, size: 50 });
+      expect(tree.computed(tree.root!, "total")).toBe(81);
+      expect(calls).toEqual([3, 1]);
+      calls.length = 0;
+
+      tree.move(tree.getById(5)!, tree.getById(3)!);
+      expect(tree.computed(tree.getById(2)!, "total")).toBe(11);
+      expect(tree.computed(tree.root!, "total")).toBe(81);
+      expect(calls).toEqual([2, 3, 1]);
+
+      tree.remove(tree.getById(3)!);
+      expect(tree.computed(tree.root!, "size")).toBe(4);
+      expect(tree.computed(tree.root!, "total")).toBe(11);
+    });
+
+    it("should recompute a subtree edited while detached", () => {
+      const root = tree.root!;
+      const node = tree.getById(2)!;
+      expect(tree.computed(node, "size")).toBe(3);
+      expect(tree.computed(root, "size")).toBe(5);
+
+      tree.remove(node);
+      node.addChild(new TreeNode({ id: 6, size: 0 }, 0));
+      root.addChild(node);
+
+      expect(tree.computed(node, "size")).toBe(4);
+      expect(tree.computed(root, "size")).toBe(6);
+    });
+
+    it("should discard values after an in-place model change", () => {
+      expect(tree.computed(tree.root!, "size")).toBe(5);
+      tree.defineComputed<number>("total", (node, totals) =>
+        totals.reduce((sum, total) => sum + total, node.model.size)
+      );
+      expect(tree.computed(tree.root!, "total")).toBe(35);
+
+      tree.getById(3)!.model.size = 6;
+      expect(tree.computed(tree.root!, "total")).toBe(35);
+      tree.invalidateComputed(tree.getById(3)!);
+      expect(tree.computed(tree.root!, "total")).toBe(36);
+
+      tree.getById(4)!.model.size = 11;
+      tree.invalidateComputed();
+      expect(tree.computed(tree.root!, "total")).toBe(37);
+    });
+  });
+
+  describe("functional transforms", () => {
+    type Model = { id: number; name: string; tags: string[] };
+    let tree: Tree<Model>;
+
+    beforeEach(() => {
+      tree = new Tree<Model>({
+        model: { id: 1, name: "root", tags: [] },
+        children: [
+          {
+            model: { id: 2, name: "docs", tags: [] },
+            children: [
+              { model: { id: 4, name: "guide", tags: ["match"] } },
+              { model: { id: 5, name: "api", tags: [] } },
+            ],
+          },
+          { model: { id: 3, name: "blog", tags: ["match"] } },
+        ],
+      });
+    });
+
+    const shape = (tree: Tree<any>) =>
+      tree.root?.toObject({
+        replacer: (model) => model.id,
+        omitEmptyChildren: true,
+      });
+
+    it("should map the models keeping the shape", () => {
+      const mapped = tree.map((model) => model.name.toUpperCase());
+
+      // The default strategy lists the children before their parent
+      expect(mapped.flatten()).toEqual([
+        "GUIDE",
+        "API",
+        "DOCS",
+        "BLOG",
+        "ROOT",
+      ]);
+      expect(mapped.getById(5)!.model).toBe("API");
+      expect(mapped.getById(3)!.index).toBe(tree.getById(3)!.index);
+      expect(tree.root!.model.name).toBe("root");
+    });
+
+    it("should filter the nodes, optionally keeping the ancestors of matches", () => {
+      const matches = (node: TreeNode<Model>) =>
+        node.model.tags.includes("match");
+
+      expect(tree.filter(matches).root).toBeNull();
+
+      const filtered = tree.filter(matches, { keepAncestors: true });
+      expect(shape(filtered)).toEqual({
+        model: 1,
+        children: [{ model: 2, children: [{ model: 4 }] }, { model: 3 }],
+      });
+      expect(filtered.getById(3)!.index).toBe(2);
+      expect(filtered.getById(4)!.model).toBe(tree.getById(4)!.model);
+
+      const copied = tree.filter(matches, {
+        keepAncestors: true,
+        cloneModel: true,
+      });
+      expect(copied.getById(4)!.model).not.toBe(tree.getById(4)!.model);
+    });
+
+    it("should prune the matching subtrees", () => {
+      const pruned = tree.prune((node) => node.model.name === "docs");
+
+      expect(pruned.flatten().map((model) => model.id)).toEqual([3, 1]);
+      expect(tree.count(() => true)).toBe(5);
+      expect(tree.prune(() => true).root).toBeNull();
+    });
+
+    it("should flatten the models in the order of the strategy", () => {
+      expect(tree.flatten().map((model) => model.id)).toEqual([4, 5, 2, 3, 1]);
+
+      tree.strategy = traversalStrategy("level-order");
+      expect(tree.flatten().map((model) => model.id)).toEqual([1, 2, 3, 4, 5]);
+      expect(tree.map((model) => model.id).flatten()).toEqual([1, 2, 3, 4, 5]);
+    });
+  });
 });
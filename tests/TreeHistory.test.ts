@@ -0,0 +1,142 @@
+import { Tree } from "../src/Tree";
+import { TreeHistory } from "../src/TreeHistory";
+import { TreeNode } from "../src/TreeNode";
+
+type Model = { id: number; name: string };
+
+describe("TreeHistory", () => {
+  let tree: Tree<Model>;
+  let history: TreeHistory<Model>;
+
+  // Serializes the tree to compare its states
+  const snapshot = () => JSON.stringify(tree);
+
+  beforeEach(() => {
+    // Create a sample tree for testing
+    tree = new Tree<Model>({
+      model: { id: 0, name: "root" },
+      children: [
+        {
+          model: { id: 1, name: "child1" },
+          children: [{ model: { id: 3, name: "grandchild1" } }],
+        },
+        { model: { id: 2, name: "child2" } },
+        { model: { id: 4, name: "child3" } },
+      ],
+    });
+    history = new TreeHistory(tree);
+  });
+
+  test("undo and redo should revert and replay each mutation", () => {
+    const initial = snapshot();
+    const child1 = tree.find("name", "child1")!;
+    const child3 = tree.find("name", "child3")!;
+
+    tree.move(child1, child3);
+    const moved = snapshot();
+    tree.remove(tree.find("name", "child2")!);
+    const removed = snapshot();
+    tree.insertChild(new TreeNode({ id: 5, name: "new" }, 1), "name", "root");
+    tree.updateModel(child3, { id: 4, name: "renamed" });
+    const updated = snapshot();
+
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(snapshot()).toBe(removed);
+    expect(history.undo()).toBe(true);
+    expect(snapshot()).toBe(moved);
+    expect(history.undo()).toBe(true);
+    expect(snapshot()).toBe(initial);
+    expect(tree.root?.children[0]).toBe(child1);
+    expect(history.canUndo).toBe(false);
+    expect(history.undo()).toBe(false);
+
+    while (history.redo());
+    expect(snapshot()).toBe(updated);
+    expect(history.canRedo).toBe(false);
+  });
+
+  test("a new mutation should discard the undone transactions", () => {
+    tree.remove(tree.find("name", "child2")!);
+    history.undo();
+    expect(history.canRedo).toBe(true);
+
+    tree.remove(tree.find("name", "child3")!);
+    expect(history.canRedo).toBe(false);
+  });
+
+  test("transaction should group several mutations", () => {
+    const initial = snapshot();
+
+    history.transaction(() => {
+      tree.root!.deleteChildren((node) => node.model.id > 1);
+      tree.move(tree.find("name", "grandchild1")!, tree.root!);
+    });
+    const changed = snapshot();
+
+    history.undo();
+    expect(snapshot()).toBe(initial);
+    history.redo();
+    expect(snapshot()).toBe(changed);
+  });
+
+  test("undo should restore a removed root", () => {
+    const root = tree.root;
+    tree.remove(root!);
+    expect(tree.root).toBeNull();
+
+    history.undo();
+    expect(tree.root).toBe(root);
+  });
+
+  test("undo should revert a sort or a swap in one step", () => {
+    const root = tree.root!;
+    const names = () => root.children.map((child) => child.model.name);
+    const indexes = () => root.children.map((child) => child.index);
+
+    root.sortChildren((a, b) => b.model.id - a.model.id);
+    expect(names()).toEqual(["child3", "child2", "child1"]);
+    history.undo();
+    expect(names()).toEqual(["child1", "child2", "child3"]);
+    expect(indexes()).toEqual([1, 2, 3]);
+
+    root.swapChildren(root.children[0], root.children[2]);
+    expect(names()).toEqual(["child3", "child2", "child1"]);
+    history.undo();
+    expect(names()).toEqual(["child1", "child2", "child3"]);
+    expect(history.canUndo).toBe(false);
+  });
+
+  test("undo should restore a replaced root in one step", () => {
+    const root = tree.root;
+    const initial = snapshot();
+    tree.root = new TreeNode({ id: 5, name: "other" }, 0);
+    const replaced = snapshot();
+
+    history.undo();
+    expect(tree.root).toBe(root);
+    expect(snapshot()).toBe(initial);
+    expect(history.canUndo).toBe(false);
+
+    history.redo();
+    expect(snapshot()).toBe(replaced);
+  });
+
+  test("the history should respect its limit", () => {
+    history.limit = 2;
+    tree.remove(tree.find("name", "child2")!);
+    tree.remove(tree.find("name", "child3")!);
+    tree.remove(tree.find("name", "child1")!);
+
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(tree.all()).toHaveLength(4); // child2 stays removed
+  });
+
+  test("dispose should stop recording", () => {
+    history.dispose();
+    tree.remove(tree.find("name", "child2")!);
+    expect(history.canUndo).toBe(false);
+  });
+});
@@ -1,4 +1,9 @@
-import { TreeNode, defaultTraversalStrategy } from "../src/TreeNode";
+import { CycleError, MultipleParentsError } from "../src/errors";
+import {
+  TreeNode,
+  defaultTraversalStrategy,
+  traversalStrategy,
+} from "../src/TreeNode";
 
 describe("TreeNode", () => {
   let rootNode: TreeNode<any>;
@@ -98,6 +103,31 @@ describe("TreeNode", () => {
     ]);
   });
 
+  test("getPathString should return the materialized path of a node", () => {
+    const grandchild = rootNode.children[0].children[0];
+
+    expect(grandchild.getPathString((node) => node.model.id)).toBe(
+      `/0/1/${grandchild.model.id}/`
+    );
+    expect(grandchild.getPathString((node) => node.model.name, ".")).toBe(
+      ".root.child1.grandchild1."
+    );
+  });
+
+  test("lowestCommonAncestor should return the deepest shared ancestor", () => {
+    const [child1, child2] = rootNode.children;
+    const grandchild1 = child1.children[0];
+
+    expect(grandchild1.lowestCommonAncestor(child2)).toBe(rootNode);
+    expect(grandchild1.lowestCommonAncestor(child1)).toBe(child1);
+    expect(child2.lowestCommonAncestor(child2)).toBe(child2);
+    expect(
+      child2.lowestCommonAncestor(new TreeNode({ id: 9, name: "other" }, 0))
+    ).toBeNull();
+    expect(grandchild1.isDescendantOf(rootNode)).toBe(true);
+    expect(rootNode.isDescendantOf(grandchild1)).toBe(false);
+  });
+
   test("getParent should return the parent node of a child node", () => {
     const child = rootNode.children[0].children[0];
     const parent = rootNode.getParent(child);
@@ -112,6 +142,29 @@ describe("TreeNode", () => {
     expect(foundChildren[0].model.name).toBe("child2");
   });
 
+  test("findDescendants should find matching nodes at any depth", () => {
+    const [child1, child2] = rootNode.children;
+    const grandchild1 = child1.children[0];
+
+    expect(rootNode.findDescendants((node) => node.model.id > 0)).toEqual([
+      child1,
+      grandchild1,
+      child2,
+    ]);
+    expect(rootNode.findDescendants("name", "grandchild1")).toEqual([
+      grandchild1,
+    ]);
+    expect(
+      rootNode.findDescendants((node) => node.model.id > 0, {
+        maxDepth: 1,
+        order: "post-order",
+      })
+    ).toEqual([child1, child2]);
+    expect(
+      rootNode.findDescendants("name", "grandchild1", { maxDepth: 1 })
+    ).toEqual([]);
+  });
+
   test("deleteChildren should delete all child nodes matching a predicate", () => {
     rootNode.deleteChildren((node) => node.model.data.value > 20);
     expect(rootNode.children).toHaveLength(1);
@@ -178,4 +231,283 @@ describe("TreeNode", () => {
     ];
     expect(result).toEqual(expectedOrder);
   });
+
+  test("toObject should serialize the node and its descendants", () => {
+    expect(rootNode.children[0].toObject({ includeIndex: true })).toEqual({
+      model: { id: 1, name: "child1", data: { value: 20 } },
+      index: 1,
+      children: [
+        {
+          model: { id: 3, name: "grandchild1", data: { value: 40 } },
+          index: 1,
+          children: [],
+        },
+      ],
+    });
+  });
+
+  test("child mutations should keep parent references consistent", () => {
+    const [child1, child2] = rootNode.children;
+    const grandchild1 = child1.children[0];
+
+    expect(child1.parent).toBe(rootNode);
+    expect(grandchild1.parent).toBe(child1);
+
+    rootNode.moveChild(child1, child2);
+    expect(child1.parent).toBe(child2);
+
+    child2.removeChild(child1);
+    expect(child1.parent).toBeNull();
+
+    rootNode.insertChild(child1, (node) => node === child2);
+    expect(rootNode.children).toEqual([child1, child2]);
+    expect(child1.parent).toBe(rootNode);
+
+    rootNode.deleteChildren((node) => node === child2);
+    expect(child2.parent).toBeNull();
+  });
+
+  test("adding a node that already has a parent should throw", () => {
+    const [child1, child2] = rootNode.children;
+    const grandchild1 = child1.children[0];
+
+    expect(() => child2.addChild(grandchild1)).toThrow(MultipleParentsError);
+    expect(() => child2.insertAt(grandchild1, 0)).toThrow(MultipleParentsError);
+    expect(() => child2.insertChild(grandchild1, () => true)).toThrow(
+      MultipleParentsError
+    );
+    expect(child1.children).toContain(grandchild1);
+    expect(grandchild1.parent).toBe(child1);
+  });
+
+  test("mutations creating a cycle should throw", () => {
+    const child1 = rootNode.children[0];
+    const grandchild1 = child1.children[0];
+    const detached = new TreeNode({ id: 9, name: "detached" }, 0);
+
+    expect(() => rootNode.moveChild(child1, grandchild1)).toThrow(CycleError);
+    expect(() => rootNode.moveChild(child1, child1)).toThrow(CycleError);
+    expect(() => detached.addChild(detached)).toThrow(CycleError);
+    expect(() => grandchild1.addChild(rootNode)).toThrow(CycleError);
+    expect(child1.parent).toBe(rootNode);
+    expect(rootNode.parent).toBeNull();
+  });
+
+  test("ancestry accessors should follow parent references", () => {
+    const child1 = rootNode.children[0];
+    const grandchild1 = child1.children[0];
+
+    expect(grandchild1.ancestors()).toEqual([child1, rootNode]);
+    expect(grandchild1.root()).toBe(rootNode);
+    expect(grandchild1.depth).toBe(2);
+    expect(rootNode.depth).toBe(0);
+    expect(rootNode.isRoot).toBe(true);
+    expect(grandchild1.isRoot).toBe(false);
+    expect(grandchild1.isLeaf).toBe(true);
+    expect(child1.isLeaf).toBe(false);
+    expect(rootNode.isAncestorOf(grandchild1)).toBe(true);
+    expect(grandchild1.isAncestorOf(rootNode)).toBe(false);
+  });
+
+  test("getParent should return null for nodes outside the subtree", () => {
+    const [child1, child2] = rootNode.children;
+
+    expect(rootNode.getParent(child1)).toBe(rootNode);
+    expect(child2.getParent(child1.children[0])).toBeNull();
+  });
+
+  test("mutations should be reported to the root change listener", () => {
+    const listener = jest.fn();
+    rootNode.changeListener = listener;
+    const [child1, child2] = rootNode.children;
+    const grandchild1 = child1.children[0];
+
+    child1.moveChild(grandchild1, child2);
+    rootNode.removeChild(child1);
+
+    expect(listener.mock.calls.map(([change]) => change)).toEqual([
+      {
+        type: "move",
+        node: grandchild1,
+        oldParent: child1,
+        oldIndex: 0,
+        parent: child2,
+        index: 0,
+      },
+      { type: "remove", node: child1, parent: rootNode, index: 0 },
+    ]);
+  });
+
+  test("traversal generators should yield nodes in every order", () => {
+    const [child1, child2] = rootNode.children;
+    const grandchild1 = child1.children[0];
+
+    expect([...rootNode.preOrder()]).toEqual([
+      rootNode,
+      child1,
+      grandchild1,
+      child2,
+    ]);
+    expect([...rootNode.postOrder()]).toEqual([
+      grandchild1,
+      child1,
+      child2,
+      rootNode,
+    ]);
+    expect([...rootNode.levelOrder()]).toEqual([
+      rootNode,
+      child1,
+      child2,
+      grandchild1,
+    ]);
+    expect([...rootNode.reversePreOrder()]).toEqual(
+      [...rootNode.preOrder()].reverse()
+    );
+    expect([...rootNode.reversePostOrder()]).toEqual(
+      [...rootNode.postOrder()].reverse()
+    );
+    expect([...rootNode.reverseLevelOrder()]).toEqual(
+      [...rootNode.levelOrder()].reverse()
+    );
+  });
+
+  test("traversal generators should stop at the maximum depth", () => {
+    const [child1, child2] = rootNode.children;
+
+    (
+      [
+        "pre-order",
+        "post-order",
+        "level-order",
+        "reverse-pre-order",
+        "reverse-post-order",
+        "reverse-level-order",
+      ] as const
+    ).forEach((order) => {
+      expect([...rootNode.traverse(order, 1)]).toEqual(
+        [...rootNode.traverse(order)].filter((node) => node.depth <= 1)
+      );
+    });
+    expect([...rootNode.levelOrder(1)]).toEqual([rootNode, child1, child2]);
+    expect([...rootNode.preOrder(0)]).toEqual([rootNode]);
+  });
+
+  test("aggregate should fold the children results into their parent", () => {
+    const total = rootNode.aggregate<number>(
+      (node, values) =>
+        node.model.data.value + values.reduce((sum, value) => sum + value, 0)
+    );
+    expect(total).toBe(100);
+
+    const names = rootNode.children[0].aggregate<string>(
+      (node, values) => `${node.model.name}(${values.join(",")})`
+    );
+    expect(names).toBe("child1(grandchild1())");
+  });
+
+  test("traversal generators should be lazy", () => {
+    const iterator = rootNode.preOrder();
+    expect(iterator.next().value).toBe(rootNode);
+
+    // Children added after the traversal started are still visited
+    const newChild = new TreeNode({ id: 4, name: "newChild" }, 4);
+    rootNode.children[1].addChild(newChild);
+    expect([...iterator]).toContain(newChild);
+  });
+
+  test("traversalStrategy should build a strategy from an order", () => {
+    const strategy = traversalStrategy<any>("level-order");
+    expect(strategy(rootNode)).toEqual(rootNode.breadthFirstOrder(rootNode));
+  });
+
+  test("clone should copy the node and optionally its models", () => {
+    const child1 = rootNode.children[0];
+
+    const copy = child1.clone();
+    expect(copy).not.toBe(child1);
+    expect(copy.parent).toBeNull();
+    expect(copy.children[0]).not.toBe(child1.children[0]);
+    expect(copy.children[0].parent).toBe(copy);
+    expect(copy.model).toBe(child1.model);
+
+    const shallow = child1.clone({ deep: false, cloneModel: true });
+    expect(shallow.children).toHaveLength(0);
+    expect(shallow.model).toEqual(child1.model);
+    expect(shallow.model).not.toBe(child1.model);
+    expect(shallow.model.data).not.toBe(child1.model.data);
+
+    const mapped = child1.clone({
+      cloneModel: (model) => ({ ...model, name: model.name + "-copy" }),
+    });
+    expect(mapped.children[0].model.name).toBe("grandchild1-copy");
+  });
+
+  describe("positional API", () => {
+    const names = (node: TreeNode<any>) =>
+      node.children.map((child) => `${child.model.name}:${child.index}`);
+
+    beforeEach(() => {
+      rootNode.addChild(new TreeNode({ id: 4, name: "child3" }, 0));
+    });
+
+    test("insertAt should insert a child at a position", () => {
+      const newChild = new TreeNode({ id: 5, name: "newChild" }, 0);
+
+      rootNode.insertAt(newChild, 1);
+      expect(names(rootNode)).toEqual([
+        "child1:1",
+        "newChild:2",
+        "child2:3",
+        "child3:4",
+      ]);
+
+      rootNode.moveChild(newChild, rootNode, 99);
+      expect(rootNode.indexOf(newChild)).toBe(3);
+      expect(newChild.index).toBe(4);
+    });
+
+    test("siblings should follow the children order", () => {
+      const [child1, child2, child3] = rootNode.children;
+
+      expect(child1.previousSibling).toBeNull();
+      expect(child1.nextSibling).toBe(child2);
+      expect(child3.previousSibling).toBe(child2);
+      expect(child3.nextSibling).toBeNull();
+      expect(rootNode.nextSibling).toBeNull();
+    });
+
+    test("swapChildren should exchange two children", () => {
+      const [child1, , child3] = rootNode.children;
+
+      rootNode.swapChildren(child3, child1);
+      expect(names(rootNode)).toEqual(["child3:1", "child2:2", "child1:3"]);
+    });
+
+    test("moveChild should insert the child at a position of the new parent", () => {
+      const [child1, child2, child3] = rootNode.children;
+
+      rootNode.moveChild(child3, child1, 0);
+      expect(names(child1)).toEqual(["child3:1", "grandchild1:2"]);
+      expect(names(rootNode)).toEqual(["child1:1", "child2:2"]);
+      expect(child2.index).toBe(2);
+
+      rootNode.removeChild(child2);
+      expect(child2.index).toBe(0);
+    });
+
+    test("sortChildren should reorder the children", () => {
+      const child1 = rootNode.children[0];
+      child1.addChild(new TreeNode({ id: 6, name: "alpha" }, 0));
+      const byName = (a: TreeNode<any>, b: TreeNode<any>) =>
+        b.model.name.localeCompare(a.model.name);
+
+      rootNode.sortChildren(byName);
+      expect(names(rootNode)).toEqual(["child3:1", "child2:2", "child1:3"]);
+      expect(names(child1)).toEqual(["grandchild1:1", "alpha:2"]);
+
+      rootNode.sortChildren((a, b) => -byName(a, b), { recursive: true });
+      expect(names(rootNode)).toEqual(["child1:1", "child2:2", "child3:3"]);
+      expect(names(child1)).toEqual(["alpha:1", "grandchild1:2"]);
+    });
+  });
 });
@@ -0,0 +1,154 @@
+import { applyPatch, diffTrees } from "../src/diff";
+import { NodeNotFoundError } from "../src/errors";
+import { Tree } from "../src/Tree";
+
+type Model = { id: number; name: string };
+
+describe("diff", () => {
+  let source: Tree<Model>;
+
+  beforeEach(() => {
+    // Create a sample tree for testing
+    source = new Tree<Model>({
+      model: { id: 0, name: "root" },
+      children: [
+        {
+          model: { id: 1, name: "child1" },
+          children: [{ model: { id: 3, name: "grandchild1" } }],
+        },
+        { model: { id: 2, name: "child2" } },
+      ],
+    });
+  });
+
+  test("diffTrees should report a moved node as a move", () => {
+    const target = source.clone();
+    target.move(target.getById(3)!, target.getById(2)!);
+
+    expect(diffTrees(source, target)).toEqual([
+      {
+        type: "move",
+        key: 3,
+        oldParentKey: 1,
+        oldIndex: 0,
+        parentKey: 2,
+        index: 0,
+      },
+    ]);
+  });
+
+  test("diffTrees should report additions, removals and model updates", () => {
+    const target = new Tree<Model>({
+      model: { id: 0, name: "root" },
+      children: [
+        { model: { id: 2, name: "renamed" } },
+        {
+          model: { id: 4, name: "new" },
+          children: [{ model: { id: 3, name: "grandchild1" } }],
+        },
+      ],
+    });
+
+    // child1 is removed last, once grandchild1 has been moved out of it
+    expect(diffTrees(source, target)).toEqual([
+      {
+        type: "update",
+        key: 2,
+        oldModel: { id: 2, name: "child2" },
+        model: { id: 2, name: "renamed" },
+      },
+      {
+        type: "add",
+        key: 4,
+        parentKey: 0,
+        index: 2,
+        model: { id: 4, name: "new" },
+      },
+      {
+        type: "move",
+        key: 3,
+        oldParentKey: 1,
+        oldIndex: 0,
+        parentKey: 4,
+        index: 0,
+      },
+      { type: "remove", key: 1 },
+    ]);
+  });
+
+  test("diffTrees should not move the siblings of a removed node", () => {
+    const children = (...ids: number[]) =>
+      ids.map((id) => ({ model: { id, name: `child${id}` } }));
+    const before = new Tree<Model>({
+      model: { id: 0, name: "root" },
+      children: children(1, 2, 3),
+    });
+    const after = new Tree<Model>({
+      model: { id: 0, name: "root" },
+      children: children(1, 3),
+    });
+
+    expect(diffTrees(before, after)).toEqual([{ type: "remove", key: 2 }]);
+  });
+
+  test("diffTrees should ignore the children arrays kept in the models", () => {
+    const raw = (children: any[]) => ({ id: 0, name: "root", children });
+    const before = new Tree<any>(raw([{ id: 1 }, { id: 2 }]), undefined, {
+      modelKey: null,
+    });
+    const after = new Tree<any>(raw([{ id: 2 }]), undefined, {
+      modelKey: null,
+    });
+
+    expect(diffTrees(before, after)).toEqual([{ type: "remove", key: 1 }]);
+  });
+
+  test("applyPatch should turn the source into the target", () => {
+    const target = new Tree<Model>({
+      model: { id: 0, name: "root" },
+      children: [
+        {
+          model: { id: 2, name: "child2" },
+          children: [
+            { model: { id: 1, name: "child1" } },
+            { model: { id: 5, name: "new" } },
+          ],
+        },
+        { model: { id: 3, name: "grandchild1" } },
+      ],
+    });
+    const child1 = source.getById(1);
+
+    applyPatch(source, diffTrees(source, target));
+
+    expect(source.toObject()).toEqual(target.toObject());
+    expect(source.getById(1)).toBe(child1);
+    expect(diffTrees(source, target)).toEqual([]);
+  });
+
+  test("diffTrees should match nodes by a custom key", () => {
+    const target = source.clone();
+    target.updateModel(target.getById(2)!, { id: 20, name: "child2" });
+
+    const operations = diffTrees(source, target, { key: "name" });
+    expect(operations.map((operation) => operation.type)).toEqual(["update"]);
+
+    applyPatch(source, operations, { key: "name" });
+    expect(source.find("name", "child2")?.model.id).toBe(20);
+  });
+
+  test("diffTrees should replace the root when its key changes", () => {
+    const target = new Tree<Model>({ model: { id: 9, name: "other" } });
+
+    const operations = diffTrees(source, target);
+    applyPatch(source, operations);
+
+    expect(source.toObject()).toEqual(target.toObject());
+  });
+
+  test("applyPatch should reject unknown keys", () => {
+    expect(() => applyPatch(source, [{ type: "remove", key: 42 }])).toThrow(
+      NodeNotFoundError
+    );
+  });
+});
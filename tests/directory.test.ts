@@ -0,0 +1,249 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileModel, fromDirectory, watchDirectory } from "../src/directory";
+import { Tree } from "../src/Tree";
+import { TreeEvent } from "../src/TreeEvents";
+
+describe("directory", () => {
+  let root: string;
+
+  // Creates files and directories below the temporary root, directories ending with a slash
+  const create = (...paths: string[]) =>
+    paths.forEach((entry) => {
+      const target = path.join(root, entry);
+      if (entry.endsWith("/")) {
+        fs.mkdirSync(target, { recursive: true });
+      } else {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, entry);
+      }
+    });
+
+  // Gets the relative paths of the nodes in pre-order, directories ending with a slash
+  const paths = (tree: Tree<FileModel>) =>
+    [...tree].map(
+      ({ model }) =>
+        path.relative(root, model.path).split(path.sep).join("/") +
+        (model.isDirectory ? "/" : "")
+    );
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "tree-")));
+    create("src/index.ts", "src/lib/util.ts", "README.md", "node_modules/x/");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("fromDirectory should load the hierarchy in name order", () => {
+    const tree = fromDirectory(root);
+
+    expect(paths(tree)).toEqual([
+      "/",
+      "README.md",
+      "node_modules/",
+      "node_modules/x/",
+      "src/",
+      "src/index.ts",
+      "src/lib/",
+      "src/lib/util.ts",
+    ]);
+    expect(tree.root!.model).toEqual(
+      expect.objectContaining({ name: path.basename(root), isDirectory: true })
+    );
+    expect(tree.find("name", "README.md")!.model).toEqual({
+      name: "README.md",
+      path: path.join(root, "README.md"),
+      isDirectory: false,
+      size: "README.md".length,
+      mtime: fs.statSync(path.join(root, "README.md")).mtime,
+    });
+  });
+
+  test("fromDirectory should apply the filters and the maximum depth", () => {
+    expect(
+      paths(fromDirectory(root, { include: /\.ts$/, exclude: /^node_modules/ }))
+    ).toEqual(["/", "src/", "src/index.ts", "src/lib/", "src/lib/util.ts"]);
+    expect(
+      paths(
+        fromDirectory(root, {
+          exclude: (model) => model.isDirectory && model.name === "lib",
+        })
+      )
+    ).toEqual([
+      "/",
+      "README.md",
+      "node_modules/",
+      "node_modules/x/",
+      "src/",
+      "src/index.ts",
+    ]);
+    expect(paths(fromDirectory(root, { maxDepth: 1 }))).toEqual([
+      "/",
+      "README.md",
+      "node_modules/",
+      "src/",
+    ]);
+    expect(() => fromDirectory(path.join(root, "missing"))).toThrow();
+  });
+
+  test("fromDirectory should follow symbolic links when asked", () => {
+    fs.symlinkSync(path.join(root, "node_modules"), path.join(root, "linked"));
+    fs.symlinkSync(path.join(root, "src"), path.join(root, "src", "lib", "up"));
+
+    const tree = fromDirectory(root, { exclude: /^node_modules/ });
+    expect(tree.find("name", "linked")!.model.isDirectory).toBe(false);
+    expect(tree.find("name", "up")!.children).toHaveLength(0);
+
+    // The second link points to one of its ancestors, so it is not read
+    expect(
+      paths(
+        fromDirectory(root, { followSymlinks: true, exclude: /^node_modules/ })
+      )
+    ).toEqual([
+      "/",
+      "README.md",
+      "linked/",
+      "linked/x/",
+      "src/",
+      "src/index.ts",
+      "src/lib/",
+      "src/lib/up/",
+      "src/lib/util.ts",
+    ]);
+  });
+
+  test("fromDirectory should skip the directories that cannot be read", () => {
+    const lib = path.join(root, "src", "lib");
+    // The module itself, as the namespace import cannot be spied on
+    const nodeFs: typeof fs = require("fs");
+    const readdir = nodeFs.readdirSync;
+    const spy = jest.spyOn(nodeFs, "readdirSync").mockImplementation(((
+      directory: string,
+      ...rest: any[]
+    ) => {
+      if (directory === lib) {
+        throw Object.assign(new Error("permission denied"), {
+          code: "EACCES",
+        });
+      }
+      return (readdir as any)(directory, ...rest);
+    }) as any);
+
+    try {
+      const errors: Error[] = [];
+      const tree = fromDirectory(root, {
+        onError: (error) => errors.push(error),
+      });
+
+      expect(tree.find("name", "lib")!.children).toHaveLength(0);
+      expect(tree.find("name", "index.ts")).not.toBeNull();
+      expect(errors.map((error) => (error as any).code)).toEqual(["EACCES"]);
+      expect(() => fromDirectory(lib)).toThrow("permission denied");
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  test("watchDirectory should apply additions, removals and renames as mutations", () => {
+    const tree = fromDirectory(root, { exclude: /^node_modules/ });
+    const watcher = watchDirectory(tree, { exclude: /^node_modules/ });
+    const events: TreeEvent<FileModel>[][] = [];
+    tree.on("change", (batch) => events.push(batch));
+
+    try {
+      const lib = tree.find("name", "lib")!;
+      create("src/lib/b.ts", "docs/guide.md", "node_modules/y.js");
+      fs.rmSync(path.join(root, "README.md"));
+      fs.renameSync(
+        path.join(root, "src", "lib"),
+        path.join(root, "src", "core")
+      );
+      watcher.refresh();
+
+      expect(paths(tree)).toEqual([
+        "/",
+        "docs/",
+        "docs/guide.md",
+        "src/",
+        "src/core/",
+        "src/core/b.ts",
+        "src/core/util.ts",
+        "src/index.ts",
+      ]);
+      // The renamed directory is the same node, moved and updated
+      expect(tree.find("name", "core")).toBe(lib);
+      expect(tree.find("name", "util.ts")!.model.path).toBe(
+        path.join(root, "src", "core", "util.ts")
+      );
+      expect(events).toHaveLength(1);
+      expect(events[0].map((event) => event.type)).toEqual(
+        expect.arrayContaining([
+          "nodeAdded",
+          "nodeRemoved",
+          "nodeMoved",
+          "modelUpdated",
+        ])
+      );
+
+      // A move to another directory keeps the node too
+      const util = tree.find("name", "util.ts")!;
+      fs.renameSync(
+        path.join(root, "src", "core", "util.ts"),
+        path.join(root, "docs", "util.ts")
+      );
+      fs.writeFileSync(path.join(root, "docs", "guide.md"), "a longer guide");
+      watcher.refresh();
+
+      expect(tree.find("name", "util.ts")).toBe(util);
+      expect(util.parent!.model.name).toBe("docs");
+      expect(tree.find("name", "guide.md")!.model.size).toBe(14);
+    } finally {
+      watcher.close();
+    }
+  });
+
+  test("watchDirectory should emit the errors as warnings without a handler", () => {
+    const warn = jest
+      .spyOn(process, "emitWarning")
+      .mockImplementation(() => undefined);
+    const tree = fromDirectory(root);
+    fs.rmSync(path.join(root, "src", "lib"), { recursive: true });
+
+    // The removed directory cannot be watched
+    const watcher = watchDirectory(tree);
+    try {
+      expect(warn).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "ENOENT" })
+      );
+    } finally {
+      watcher.close();
+      warn.mockRestore();
+    }
+  });
+
+  test("watchDirectory should follow filesystem events", async () => {
+    const tree = fromDirectory(root);
+    const errors: Error[] = [];
+    const watcher = watchDirectory(tree, {
+      delay: 10,
+      onError: (error) => errors.push(error),
+    });
+
+    try {
+      create("src/lib/new.ts");
+
+      // Wait for the event and the delay, without relying on their exact timing
+      for (let i = 0; i < 100 && !tree.find("name", "new.ts"); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+
+      expect(tree.find("name", "new.ts")!.parent!.model.name).toBe("lib");
+      expect(errors).toEqual([]);
+    } finally {
+      watcher.close();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { toDot, toMermaid } from "../src/graph";
+import { Tree } from "../src/Tree";
+
+type Model = { id: number; name: string; type: string };
+
+describe("graph", () => {
+  let tree: Tree<Model>;
+
+  beforeEach(() => {
+    // Create a sample tree for testing
+    tree = new Tree<Model>({
+      model: { id: 0, name: "root", type: "folder" },
+      children: [
+        {
+          model: { id: 1, name: 'say "hi"', type: "folder" },
+          children: [{ model: { id: 3, name: "a<b>#1", type: "file" } }],
+        },
+        { model: { id: 2, name: "back\\slash\nnew line", type: "file" } },
+      ],
+    });
+  });
+
+  test("toDot should export the nodes and edges with escaped labels", () => {
+    expect(tree.toDot()).toBe(
+      [
+        'digraph "tree" {',
+        '  n0 [label="root"];',
+        '  n1 [label="say \\"hi\\""];',
+        '  n2 [label="a<b>#1"];',
+        '  n3 [label="back\\\\slash\\nnew line"];',
+        "  n0 -> n1;",
+        "  n1 -> n2;",
+        "  n0 -> n3;",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  test("toDot should apply attributes and highlight a path", () => {
+    const dot = tree.toDot({
+      name: "files",
+      graphAttributes: { rankdir: "LR" },
+      label: (node) => String(node.model.id),
+      attributes: (node) =>
+        node.model.type === "folder" ? { shape: "folder" } : undefined,
+      highlight: tree.getPath(tree.getById(3)!)!,
+    });
+
+    expect(dot.split("\n")).toEqual([
+      'digraph "files" {',
+      '  rankdir="LR";',
+      '  n0 [label="0", shape="folder", color="red", penwidth="2"];',
+      '  n1 [label="1", shape="folder", color="red", penwidth="2"];',
+      '  n2 [label="3", color="red", penwidth="2"];',
+      '  n3 [label="2"];',
+      '  n0 -> n1 [color="red", penwidth=2];',
+      '  n1 -> n2 [color="red", penwidth=2];',
+      "  n0 -> n3;",
+      "}",
+    ]);
+  });
+
+  test("toMermaid should export the nodes and edges with escaped labels", () => {
+    expect(tree.toMermaid()).toBe(
+      [
+        "graph TD",
+        '  n0["root"]',
+        '  n1["say #quot;hi#quot;"]',
+        '  n2["a#lt;b#gt;#35;1"]',
+        '  n3["back\\slash new line"]',
+        "  n0 --> n1",
+        "  n1 --> n2",
+        "  n0 --> n3",
+      ].join("\n")
+    );
+  });
+
+  test("toMermaid should apply shapes, styles and highlight a path", () => {
+    const mermaid = tree.toMermaid({
+      direction: "LR",
+      label: (node) => node.model.type,
+      attributes: (node): Record<string, string> =>
+        node.model.type === "folder"
+          ? { shape: "round", fill: "#ffd" }
+          : { shape: "stadium" },
+      highlight: [tree.getById(2)!, tree.root!],
+      highlightColor: "blue",
+    });
+
+    expect(mermaid.split("\n")).toEqual([
+      "graph LR",
+      '  n0("folder")',
+      '  n1("folder")',
+      '  n2(["file"])',
+      '  n3(["file"])',
+      "  n0 --> n1",
+      "  n1 --> n2",
+      "  n0 --> n3",
+      "  style n0 fill:#ffd,stroke:blue,stroke-width:3px",
+      "  style n1 fill:#ffd",
+      "  style n3 stroke:blue,stroke-width:3px",
+      "  linkStyle 2 stroke:blue,stroke-width:3px",
+    ]);
+  });
+
+  test("should export empty graphs", () => {
+    expect(new Tree<Model>(null).toDot()).toBe('digraph "tree" {\n}');
+    expect(toMermaid(null)).toBe("graph TD");
+    expect(toDot(tree.getById(3)!)).toBe(
+      'digraph "tree" {\n  n0 [label="a<b>#1"];\n}'
+    );
+  });
+});
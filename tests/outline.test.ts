@@ -0,0 +1,164 @@
+import { TreeParseError } from "../src/errors";
+import { parseMarkdownHeadings, parseOutline } from "../src/outline";
+import { Tree } from "../src/Tree";
+
+type Model = { name: string };
+
+describe("outline", () => {
+  const outline = [
+    "Guide",
+    "  - Install",
+    "  - Usage",
+    "",
+    "    - Options",
+    "  - FAQ",
+  ].join("\n");
+
+  const expected = {
+    model: { name: "Guide" },
+    children: [
+      { model: { name: "Install" } },
+      {
+        model: { name: "Usage" },
+        children: [{ model: { name: "Options" } }],
+      },
+      { model: { name: "FAQ" } },
+    ],
+  };
+
+  test("fromOutline should build the tree of an indented outline", () => {
+    const tree = Tree.fromOutline<Model>(outline);
+
+    expect(tree.root!.toObject({ omitEmptyChildren: true })).toEqual(expected);
+    expect(
+      tree.find("name", "Options")!.getPathString((node) => node.model.name)
+    ).toBe("/Guide/Usage/Options/");
+  });
+
+  test("fromOutline should support tabs, fixed indents and an added root", () => {
+    const tabs = "Guide\n\tInstall\n\tUsage\n\t\tOptions\n\tFAQ";
+    expect(
+      Tree.fromOutline<Model>(tabs, { indent: "\t" }).root!.toObject({
+        omitEmptyChildren: true,
+      })
+    ).toEqual(expected);
+
+    const tree = Tree.fromOutline<any>("a\n    b\nc", {
+      indent: 4,
+      root: { name: "nav" },
+      parseLabel: (label, depth) => ({ label, depth }),
+    });
+    expect(tree.root!.toObject({ omitEmptyChildren: true })).toEqual({
+      model: { name: "nav" },
+      children: [
+        {
+          model: { label: "a", depth: 0 },
+          children: [{ model: { label: "b", depth: 1 } }],
+        },
+        { model: { label: "c", depth: 0 } },
+      ],
+    });
+
+    expect(parseOutline(" \n")).toBeNull();
+    expect(parseOutline("", { root: { name: "nav" } })).toEqual({
+      model: { name: "nav" },
+      children: [],
+    });
+  });
+
+  test("fromOutline should report malformed indentation with the line", () => {
+    const parse = (text: string, indent?: string | number) => () =>
+      Tree.fromOutline(text, { indent });
+
+    expect(parse("a\n  b\n      c")).toThrow(TreeParseError);
+    expect(parse("a\n  b\n      c")).toThrow("Unexpected indentation (line 3)");
+    expect(parse("a\n  b\n   c")).toThrow(
+      "The indentation is not a whole number of levels (line 3)"
+    );
+    expect(parse("a\n\tb\n  c", "\t")).toThrow("(line 3)");
+    expect(parse("  a")).toThrow("The first item must be at the top (line 1)");
+    expect(parse("a\n\nb")).toThrow(
+      "Only one top-level item is allowed (line 3)"
+    );
+    expect(parse("a", "")).toThrow(RangeError);
+  });
+
+  test("toOutline should write an outline read back by fromOutline", () => {
+    const tree = Tree.fromOutline<Model>(outline);
+
+    expect(tree.toOutline()).toBe(
+      "Guide\n  Install\n  Usage\n    Options\n  FAQ"
+    );
+    expect(tree.toOutline({ indent: "\t", omitRoot: true })).toBe(
+      "Install\nUsage\n\tOptions\nFAQ"
+    );
+    expect(
+      Tree.fromOutline<Model>(tree.toOutline({ indent: "\t" })).toObject()
+    ).toEqual(tree.toObject());
+    expect(new Tree(null).toOutline()).toBe("");
+  });
+
+  test("fromMarkdownHeadings should nest the headings", () => {
+    const markdown = [
+      "# Guide",
+      "Some text.",
+      "## Install ##",
+      "```sh",
+      "# not a heading",
+      "```",
+      "## Usage",
+      "### Options",
+      "## FAQ",
+    ].join("\n");
+
+    expect(
+      Tree.fromMarkdownHeadings<Model>(markdown).root!.toObject({
+        omitEmptyChildren: true,
+      })
+    ).toEqual(expected);
+    expect(
+      parseMarkdownHeadings("## a\n### b\n## c", { root: "toc" }).children
+    ).toHaveLength(2);
+    expect(parseMarkdownHeadings("no headings")).toBeNull();
+  });
+
+  test("fromMarkdownHeadings should report malformed headings with the line", () => {
+    const parse = (markdown: string) => () =>
+      Tree.fromMarkdownHeadings(markdown);
+
+    expect(parse("# a\n\n### b")).toThrow(TreeParseError);
+    expect(parse("# a\n\n### b")).toThrow("The heading skips a level (line 3)");
+    expect(parse("## a\n# b")).toThrow(
+      "The heading is above the level of the first heading (h2) (line 2)"
+    );
+    expect(parse("# a\n# b")).toThrow(
+      "Only one top-level heading is allowed (line 2)"
+    );
+  });
+
+  test("toMarkdownList should write a nested list with links", () => {
+    const tree = Tree.fromOutline<Model>(outline);
+
+    expect(tree.toMarkdownList()).toBe(
+      "- Guide\n  - Install\n  - Usage\n    - Options\n  - FAQ"
+    );
+    expect(
+      tree
+        .toMarkdownList({
+          bullet: "*",
+          omitRoot: true,
+          label: (node) => `[${node.model.name}]`,
+          link: (node) =>
+            node.children.length === 0
+              ? `docs/${node.model.name} (draft).md`
+              : undefined,
+        })
+        .split("\n")
+    ).toEqual([
+      "* [\\[Install\\]](docs/Install%20%28draft%29.md)",
+      "* [Usage]",
+      "  * [\\[Options\\]](docs/Options%20%28draft%29.md)",
+      "* [\\[FAQ\\]](docs/FAQ%20%28draft%29.md)",
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { QuerySyntaxError } from "../src/errors";
+import { compileQuery } from "../src/query";
+import { Tree } from "../src/Tree";
+
+type Model = {
+  name: string;
+  type: string;
+  size?: number;
+  meta?: { owner: string };
+};
+
+describe("query", () => {
+  let tree: Tree<Model>;
+
+  const names = (nodes: { model: Model }[]) =>
+    nodes.map((node) => node.model.name);
+
+  beforeEach(() => {
+    // Create a sample tree for testing
+    tree = new Tree<Model>({
+      model: { name: "root", type: "folder" },
+      children: [
+        {
+          model: { name: "src", type: "folder", meta: { owner: "ann" } },
+          children: [
+            { model: { name: "index.ts", type: "file", size: 120 } },
+            {
+              model: { name: "lib", type: "folder" },
+              children: [
+                { model: { name: "util.ts", type: "file", size: 80 } },
+                { model: { name: "big.ts", type: "file", size: 4000 } },
+              ],
+            },
+          ],
+        },
+        { model: { name: "README.md", type: "file", size: 300 } },
+      ],
+    });
+  });
+
+  test("should follow child and descendant axes from the root", () => {
+    expect(names(tree.query("/root/*"))).toEqual(["src", "README.md"]);
+    expect(names(tree.query("/root/src/lib/*"))).toEqual(["util.ts", "big.ts"]);
+    expect(names(tree.query("//[type=folder]"))).toEqual([
+      "root",
+      "src",
+      "lib",
+    ]);
+    expect(names(tree.query("/root/*/[type=folder]//[size>100]"))).toEqual([
+      "big.ts",
+    ]);
+  });
+
+  test("should compare model fields", () => {
+    expect(names(tree.query("//[size<=120]"))).toEqual(["index.ts", "util.ts"]);
+    expect(names(tree.query("//[name$=.ts][size!=80]"))).toEqual([
+      "index.ts",
+      "big.ts",
+    ]);
+    expect(names(tree.query("//[meta.owner='ann']"))).toEqual(["src"]);
+    expect(names(tree.query("//[size]"))).toHaveLength(4);
+  });
+
+  test("should filter candidates by position", () => {
+    expect(names(tree.query("/root/*[1]"))).toEqual(["src"]);
+    expect(names(tree.query("//[type=folder]/*[last]"))).toEqual([
+      "lib",
+      "big.ts",
+      "README.md",
+    ]);
+  });
+
+  test("should run relative queries from a node and return matches in pre-order", () => {
+    const src = tree.query("/root/src")[0];
+
+    expect(names(src.query("lib/*"))).toEqual(["util.ts", "big.ts"]);
+    expect(names(src.query("/root/README.md"))).toEqual(["README.md"]);
+    expect(names(compileQuery<Model>("//[type=file]")(src))).toEqual([
+      "index.ts",
+      "util.ts",
+      "big.ts",
+      "README.md",
+    ]);
+  });
+
+  test("should report syntax errors", () => {
+    expect(() => tree.query("")).toThrow(QuerySyntaxError);
+    expect(() => tree.query("/root/[size>")).toThrow(QuerySyntaxError);
+    expect(() => tree.query("/root/[0]")).toThrow(QuerySyntaxError);
+    expect(() => tree.query("/root/[a b]")).toThrow(QuerySyntaxError);
+  });
+});
@@ -0,0 +1,99 @@
+import { inspect } from "util";
+import { TreeParseError } from "../src/errors";
+import { parseTreeText, renderTree } from "../src/text";
+import { Tree } from "../src/Tree";
+import { TreeNode } from "../src/TreeNode";
+
+describe("text", () => {
+  const outline = [
+    "root",
+    "├── docs",
+    "│   ├── guide",
+    "│   │   └── intro",
+    "│   └── api",
+    "└── blog",
+  ].join("\n");
+
+  let tree: Tree<{ name: string }>;
+
+  beforeEach(() => {
+    tree = Tree.fromText(outline);
+  });
+
+  test("fromText should build the tree of an outline", () => {
+    expect(tree.root!.toObject({ omitEmptyChildren: true })).toEqual({
+      model: { name: "root" },
+      children: [
+        {
+          model: { name: "docs" },
+          children: [
+            {
+              model: { name: "guide" },
+              children: [{ model: { name: "intro" } }],
+            },
+            { model: { name: "api" } },
+          ],
+        },
+        { model: { name: "blog" } },
+      ],
+    });
+  });
+
+  test("toString should render the tree and read back the same", () => {
+    expect(tree.toString()).toBe(outline);
+    expect(Tree.fromText(tree.toString({ charset: "ascii" })).toString()).toBe(
+      outline
+    );
+    expect(new Tree(null).toString()).toBe("");
+  });
+
+  test("toString should support custom labels, ASCII and a maximum depth", () => {
+    expect(
+      tree.toString({
+        charset: "ascii",
+        maxDepth: 1,
+        label: (node) => node.model.name.toUpperCase(),
+      })
+    ).toBe(["ROOT", "|-- DOCS", "|   `-- …", "`-- BLOG"].join("\n"));
+    expect(tree.root!.children[0].toString({ maxDepth: 0 })).toBe(
+      "docs\n└── …"
+    );
+  });
+
+  test("renderTree should label primitive models, names, ids and JSON", () => {
+    const root = new TreeNode<any>({ id: 1 }, 0);
+    root.addChild(new TreeNode<any>(42, 0));
+    root.addChild(new TreeNode<any>({ value: "a" }, 0));
+    root.id = 1;
+
+    expect(renderTree(root)).toBe('1\n├── 42\n└── {"value":"a"}');
+    expect(renderTree(root, { label: () => "a\nb" })).toBe(
+      "a b\n├── a b\n└── a b"
+    );
+  });
+
+  test("parseTreeText should create the models with parseLabel", () => {
+    const object = parseTreeText("1\n└── 2", {
+      parseLabel: (label) => ({ id: Number(label) }),
+    });
+
+    expect(object.children[0].model).toEqual({ id: 2 });
+    expect(parseTreeText(" \n")).toBeNull();
+  });
+
+  test("parseTreeText should report the line of an error", () => {
+    expect(() => parseTreeText("root\n│   └── deep")).toThrow(TreeParseError);
+    expect(() => parseTreeText("root\n└── a\nother")).toThrow("line 3");
+    expect(() => parseTreeText("└── a")).toThrow("line 1");
+    // Only the branches written by renderTree are read
+    expect(() => parseTreeText("root\n+-- a")).toThrow(
+      "Only one root is allowed (line 2)"
+    );
+  });
+
+  test("inspect should show the rendering", () => {
+    expect(inspect(tree)).toBe(`Tree\n${outline}`);
+    expect(inspect(tree.root!.children[1])).toBe("TreeNode\nblog");
+    expect(inspect(new Tree(null))).toBe("Tree (empty)");
+  });
+});
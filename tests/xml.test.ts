@@ -0,0 +1,232 @@
+import { TreeParseError } from "../src/errors";
+import { Tree } from "../src/Tree";
+import {
+  DomLikeNode,
+  XmlEvent,
+  parseDom,
+  parseXml,
+  readXml,
+  writeXml,
+} from "../src/xml";
+
+/**
+ * A minimal DOM implementation for the adapters.
+ */
+class FakeNode implements DomLikeNode {
+  childNodes: FakeNode[] = [];
+  attributes: { name: string; value: string }[] = [];
+
+  constructor(
+    public nodeType: number,
+    public nodeName: string,
+    public nodeValue: string | null = null
+  ) {}
+
+  setAttribute(name: string, value: string) {
+    this.attributes.push({ name, value });
+  }
+
+  appendChild(child: FakeNode) {
+    this.childNodes.push(child);
+  }
+}
+
+const fakeDocument = {
+  createElement: (tag: string) => new FakeNode(1, tag),
+  createTextNode: (text: string) => new FakeNode(3, "#text", text),
+};
+
+describe("xml", () => {
+  const document = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<!DOCTYPE urlset [",
+    '  <!ENTITY note "a > b">',
+    "]>",
+    "<!-- The pages of the site -->",
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    '  <url priority="1.0">',
+    "    <loc>https://example.com/?a=1&amp;b=2</loc>",
+    "  </url>",
+    "  <url priority='0.5' title=\"&quot;News&quot; &#38; more\">",
+    "    <loc><![CDATA[https://example.com/news?<all>]]></loc>",
+    "    <draft/>",
+    "  </url>",
+    "</urlset>",
+  ].join("\n");
+
+  test("fromXml should map the elements to nodes in document order", () => {
+    const tree = Tree.fromXml(document);
+
+    expect(tree.root!.toObject({ omitEmptyChildren: true })).toEqual({
+      model: {
+        tag: "urlset",
+        attributes: { xmlns: "http://www.sitemaps.org/schemas/sitemap/0.9" },
+      },
+      children: [
+        {
+          model: { tag: "url", attributes: { priority: "1.0" } },
+          children: [
+            {
+              model: {
+                tag: "loc",
+                attributes: {},
+                text: "https://example.com/?a=1&b=2",
+              },
+            },
+          ],
+        },
+        {
+          model: {
+            tag: "url",
+            attributes: { priority: "0.5", title: '"News" & more' },
+          },
+          children: [
+            {
+              model: {
+                tag: "loc",
+                attributes: {},
+                text: "https://example.com/news?<all>",
+              },
+            },
+            { model: { tag: "draft", attributes: {} } },
+          ],
+        },
+      ],
+    });
+    expect(tree.root!.children.map((child) => child.index)).toEqual([1, 2]);
+    expect(
+      tree.find("tag", "draft")!.getPathString((node) => node.model.tag)
+    ).toBe("/urlset/url/draft/");
+  });
+
+  test("toXml should write the document back", () => {
+    const tree = Tree.fromXml(document);
+    const xml = tree.toXml();
+
+    expect(xml.split("\n")).toEqual([
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+      '  <url priority="1.0">',
+      "    <loc>https://example.com/?a=1&amp;b=2</loc>",
+      "  </url>",
+      '  <url priority="0.5" title="&quot;News&quot; &amp; more">',
+      "    <loc>https://example.com/news?&lt;all&gt;</loc>",
+      "    <draft/>",
+      "  </url>",
+      "</urlset>",
+    ]);
+    expect(Tree.fromXml(xml).toObject()).toEqual(tree.toObject());
+    expect(tree.toXml({ indent: "", declaration: true })).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?>' + xml.replace(/\n\s*/g, "")
+    );
+    expect(new Tree(null).toXml()).toBe("");
+  });
+
+  test("text nodes should keep mixed content in order", () => {
+    const source = "<p>Some <b>bold</b> text</p>";
+    const tree = Tree.fromXml(source, { textNodes: true, trim: false });
+
+    expect(
+      tree.root!.children.map(({ model }) => model.text ?? model.tag)
+    ).toEqual(["Some ", "b", " text"]);
+    expect(tree.toXml({ indent: "" })).toBe(source);
+
+    expect(Tree.fromXml(source).root!.model.text).toBe("Some text");
+  });
+
+  test("readXml should stream events from chunks split anywhere", () => {
+    const events: XmlEvent[] = Array.from(readXml(document));
+    const chunks = document.match(/[\s\S]{1,3}/g)!;
+
+    expect(Array.from(readXml(chunks))).toEqual(events);
+    expect(parseXml(chunks)).toEqual(parseXml(document));
+    expect(events.filter((event) => event.type !== "text")).toHaveLength(12);
+    expect(events[0]).toEqual({
+      type: "open",
+      tag: "urlset",
+      attributes: { xmlns: "http://www.sitemaps.org/schemas/sitemap/0.9" },
+      line: 6,
+    });
+  });
+
+  test("writeXml should yield one line at a time", () => {
+    const tree = Tree.fromXml("<a><b>text</b><c/></a>");
+
+    expect(Array.from(writeXml(tree.root!))).toEqual([
+      "<a>\n",
+      "  <b>text</b>\n",
+      "  <c/>\n",
+      "</a>\n",
+    ]);
+  });
+
+  test("parseXml should support deeply nested documents", () => {
+    const depth = 20000;
+    let object = parseXml("<a>".repeat(depth) + "</a>".repeat(depth));
+
+    let height = 0;
+    while (object.children.length > 0) {
+      object = object.children[0];
+      height++;
+    }
+    expect(height).toBe(depth - 1);
+  });
+
+  test("fromXml should report the line of an error", () => {
+    const parse = (source: string) => () => Tree.fromXml(source);
+
+    expect(parse("<a>\n  <b>\n</a>")).toThrow(TreeParseError);
+    expect(parse("<a>\n  <b>\n</a>")).toThrow(
+      "Expected </b> but found </a> (line 3)"
+    );
+    expect(parse("<a>\n<b>")).toThrow("Unclosed element <b> (line 2)");
+    expect(parse("<a/>\n<b/>")).toThrow(
+      "Only one root element is allowed (line 2)"
+    );
+    expect(parse("text<a/>")).toThrow("Text outside of the root element");
+    expect(parse('<a x="1" x="2"/>')).toThrow('Duplicate attribute "x"');
+    expect(parse("<a x=1/>")).toThrow("Invalid attributes in <a>");
+    expect(parse("<a>&nbsp;</a>")).toThrow('Invalid entity "&nbsp;"');
+    expect(parse("<a>\n\nx & y</a>")).toThrow("(line 1)");
+    expect(parse("<a>\n&#99999999;</a>")).toThrow(TreeParseError);
+    expect(parse('<a>\n<b x="&#xD800;"/></a>')).toThrow(
+      'Invalid entity "&#xD800;" (line 2)'
+    );
+    expect(parse("<a><!-- open</a>")).toThrow("Unclosed comment");
+    expect(Tree.fromXml(" \n").root).toBeNull();
+  });
+
+  test("fromDom and toDom should convert DOM nodes", () => {
+    const list = new FakeNode(1, "UL");
+    list.setAttribute("class", "menu");
+    const item = new FakeNode(1, "LI");
+    item.appendChild(new FakeNode(3, "#text", " Home "));
+    list.appendChild(item);
+    list.appendChild(new FakeNode(8, "#comment", "skipped"));
+    list.appendChild(new FakeNode(1, "LI"));
+
+    const tree = Tree.fromDom(list);
+    expect(tree.root!.toObject({ omitEmptyChildren: true })).toEqual({
+      model: { tag: "UL", attributes: { class: "menu" } },
+      children: [
+        { model: { tag: "LI", attributes: {}, text: "Home" } },
+        { model: { tag: "LI", attributes: {} } },
+      ],
+    });
+    expect(parseDom(list, { textNodes: true }).children[0].children).toEqual([
+      {
+        model: { tag: "#text", attributes: {}, text: "Home" },
+        children: [],
+      },
+    ]);
+
+    const copy = tree.toDom(fakeDocument)!;
+    expect(copy.nodeName).toBe("UL");
+    expect(copy.attributes).toEqual([{ name: "class", value: "menu" }]);
+    expect(copy.childNodes.map((child) => child.nodeName)).toEqual([
+      "LI",
+      "LI",
+    ]);
+    expect(copy.childNodes[0].childNodes[0].nodeValue).toBe("Home");
+    expect(Tree.fromDom(copy).toObject()).toEqual(tree.toObject());
+  });
+});